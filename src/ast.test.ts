@@ -0,0 +1,89 @@
+import { describe, it, expect } from "vitest";
+import { findNodes, formatNodeLine, parseSnapshotYaml, serializeSnapshot } from "./ast.js";
+import { parsePlaywrightResponse } from "./response.js";
+
+// Written the way Playwright writes snapshots
+const SNAPSHOT = `- banner [ref=e1]:
+  - heading "Welcome" [level=1] [ref=e2]
+  - link "Docs" [ref=e3] [cursor=pointer]:
+    - /url: https://example.com/docs
+    - img [ref=e4]
+- main [ref=e5]:
+  - paragraph [ref=e6]: "Price: $5"
+  - checkbox "Remember me" [checked] [ref=e7]
+  - button "Sign in" [disabled] [ref=e8] [cursor=pointer]
+  - textbox "Say \\"hi\\"" [active] [ref=e9]
+  - link "It's here" [ref=e10]
+  - text: Plain text`;
+
+// A tool response in the older format, without refs on containers
+const RESPONSE = `### Page
+- Page URL: https://example.com/dashboard
+- Page Title: User Dashboard
+- Console: 5 errors, 2 warnings
+### Snapshot
+\`\`\`yaml
+- banner:
+  - heading "My Application" [level=1]
+  - navigation:
+    - link "Home" [ref=nav-home]
+    - link "Settings" [ref=nav-settings]
+- main:
+  - region "Statistics":
+    - text "Total Projects: 42"
+  - list:
+    - listitem "Created new project 'Website Redesign'" [ref=activity-1]
+  - button "New Project" [ref=btn-new-project]
+\`\`\``;
+
+describe("parseSnapshotYaml", () => {
+  const nodes = parseSnapshotYaml(SNAPSHOT);
+
+  it("builds the tree", () => {
+    expect(nodes.map((n) => n.role)).toEqual(["banner", "main"]);
+    expect(nodes[1].children).toHaveLength(6);
+    expect(nodes[0].children[1].children[0]).toMatchObject({ role: "img", ref: "e4" });
+  });
+
+  it("parses names, refs, attributes and props", () => {
+    expect(nodes[0].children[0]).toMatchObject({ role: "heading", name: "Welcome", ref: "e2", attributes: { level: "1" } });
+    expect(nodes[0].children[1]).toMatchObject({
+      name: "Docs",
+      attributes: { cursor: "pointer" },
+      props: { url: "https://example.com/docs" },
+    });
+    expect(nodes[1].children[1].attributes).toEqual({ checked: true });
+    expect(nodes[1].children[2].attributes).toEqual({ disabled: true, cursor: "pointer" });
+  });
+
+  it("unescapes quoted names, keys and text", () => {
+    expect(nodes[1].children[0].text).toBe("Price: $5");
+    expect(nodes[1].children[3].name).toBe('Say "hi"');
+    expect(nodes[1].children[4]).toMatchObject({ role: "link", name: "It's here", ref: "e10" });
+    expect(nodes[1].children[5]).toMatchObject({ role: "text", text: "Plain text" });
+    expect(parseSnapshotYaml(`- 'link "It''s here" [ref=e10]'`)[0]).toMatchObject({ name: "It's here", ref: "e10" });
+  });
+
+  it("finds nodes", () => {
+    const refs = findNodes(nodes, (n) => n.attributes.cursor === "pointer").map((n) => n.ref);
+    expect(refs).toEqual(["e3", "e8"]);
+  });
+});
+
+describe("serializeSnapshot", () => {
+  it("round-trips Playwright output exactly", () => {
+    expect(serializeSnapshot(parseSnapshotYaml(SNAPSHOT))).toBe(SNAPSHOT);
+  });
+
+  it("round-trips a tool response's snapshot semantically", () => {
+    const nodes = parseSnapshotYaml(parsePlaywrightResponse(RESPONSE)!.snapshotYaml);
+    expect(nodes.length).toBeGreaterThan(0);
+    expect(parseSnapshotYaml(serializeSnapshot(nodes))).toEqual(nodes);
+  });
+
+  it("formats a single line", () => {
+    expect(formatNodeLine({ role: "button", name: "OK", ref: "e1", attributes: {}, props: {}, children: [] })).toBe(
+      'button "OK" [ref=e1]'
+    );
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Typed accessibility-snapshot tree.
+ *
+ * Parses the YAML produced by Playwright's aria snapshots, e.g.
+ *
+ *   - heading "Welcome" [level=1] [ref=e2]
+ *   - link "Docs" [ref=e3] [cursor=pointer]:
+ *     - /url: https://example.com/docs
+ *   - paragraph [ref=e4]: Some text
+ *
+ * into nodes with role, accessible name, ref, attributes, text and children, and
+ * serializes them back.
+ */
+
+export interface SnapshotNode {
+  /** ARIA role, or "text" for plain text children */
+  role: string;
+  /** Accessible name (the quoted part), unescaped */
+  name?: string;
+  /** Element reference usable with Playwright MCP tools, e.g. "e12" */
+  ref?: string;
+  /**
+   * Bracketed attributes other than ref, in source order.
+   * Flags like [checked] map to true, [level=2] maps to "2".
+   */
+  attributes: Record<string, string | true>;
+  /** Inline text after the colon, unescaped */
+  text?: string;
+  /** Properties such as /url, keyed without the leading slash */
+  props: Record<string, string>;
+  children: SnapshotNode[];
+}
+
+const LINE_PATTERN = /^(\s*)- (.*)$/;
+const NAME_PATTERN = /^"((?:[^"\\]|\\.)*)"/;
+const ATTRIBUTE_PATTERN = /^\[([^\]=\s]+)(?:=([^\]]*))?\]/;
+
+/**
+ * Split a list item into its key and value at the first ": " (or trailing ":")
+ * that is outside quotes.
+ */
+function splitKeyValue(item: string): { key: string; value: string | null } {
+  if (item.startsWith("'")) {
+    // YAML single-quoted key: '' is an escaped quote
+    let i = 1;
+    while (i < item.length) {
+      if (item[i] === "'" && item[i + 1] === "'") {
+        i += 2;
+      } else if (item[i] === "'") {
+        break;
+      } else {
+        i++;
+      }
+    }
+    const key = item.slice(1, i).replace(/''/g, "'");
+    const rest = item.slice(i + 1);
+    if (rest.startsWith(": ")) return { key, value: rest.slice(2) };
+    return { key, value: rest === ":" ? "" : null };
+  }
+
+  let inQuotes = false;
+  for (let i = 0; i < item.length; i++) {
+    const char = item[i];
+    if (char === "\\" && inQuotes) {
+      i++;
+    } else if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ":" && !inQuotes && (item[i + 1] === " " || i === item.length - 1)) {
+      return { key: item.slice(0, i), value: item.slice(i + 2) };
+    }
+  }
+  return { key: item, value: null };
+}
+
+function unescapeValue(value: string): string {
+  if (value.startsWith('"') && value.endsWith('"') && value.length >= 2) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value;
+}
+
+function parseKey(key: string): Pick<SnapshotNode, "role" | "name" | "ref" | "attributes"> {
+  const role = key.match(/^\S+/)?.[0] ?? "";
+  let rest = key.slice(role.length).trimStart();
+  const node: Pick<SnapshotNode, "role" | "name" | "ref" | "attributes"> = { role, attributes: {} };
+
+  const nameMatch = rest.match(NAME_PATTERN);
+  if (nameMatch) {
+    node.name = JSON.parse(`"${nameMatch[1]}"`);
+    rest = rest.slice(nameMatch[0].length).trimStart();
+  }
+
+  let attributeMatch: RegExpMatchArray | null;
+  while ((attributeMatch = rest.match(ATTRIBUTE_PATTERN))) {
+    const [full, attrName, attrValue] = attributeMatch;
+    if (attrName === "ref") {
+      node.ref = attrValue;
+    } else {
+      node.attributes[attrName] = attrValue ?? true;
+    }
+    rest = rest.slice(full.length).trimStart();
+  }
+
+  return node;
+}
+
+/**
+ * Parse snapshot YAML into a list of root nodes.
+ */
+export function parseSnapshotYaml(yaml: string): SnapshotNode[] {
+  const roots: SnapshotNode[] = [];
+  const stack: { indent: number; node: SnapshotNode }[] = [];
+
+  for (const line of yaml.split("\n")) {
+    const match = line.match(LINE_PATTERN);
+    if (!match) continue; // Blank lines
+
+    const indent = match[1].length;
+    const { key, value } = splitKeyValue(match[2]);
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    const parent = stack.length > 0 ? stack[stack.length - 1].node : null;
+
+    // Properties like "/url: ..." belong to the parent element
+    if (key.startsWith("/") && parent) {
+      parent.props[key.slice(1)] = unescapeValue(value ?? "");
+      continue;
+    }
+
+    const node: SnapshotNode = { ...parseKey(key), props: {}, children: [] };
+    if (value) node.text = unescapeValue(value);
+
+    (parent ? parent.children : roots).push(node);
+    stack.push({ indent, node });
+  }
+
+  return roots;
+}
+
+// Mirrors the quoting rules Playwright uses when writing snapshots
+function needsQuotes(str: string): boolean {
+  return (
+    str.length === 0 ||
+    /^\s|\s$/.test(str) ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(str) ||
+    /: |:$| #|[\n\r\t]/.test(str) ||
+    /^(true|false|null|~|yes|no|on|off)$/i.test(str) ||
+    /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(str)
+  );
+}
+
+/**
+ * The key part of a node's line: role, name and attributes.
+ */
+export function formatNodeKey(node: SnapshotNode): string {
+  let key = node.role;
+  if (node.name !== undefined) key += ` ${JSON.stringify(node.name)}`;
+
+  // Playwright writes the ref after state attributes and before [cursor=...]
+  const attributes = Object.entries(node.attributes);
+  const cursorIndex = attributes.findIndex(([attrName]) => attrName === "cursor");
+  const refPosition = cursorIndex === -1 ? attributes.length : cursorIndex;
+  attributes.forEach(([attrName, value], index) => {
+    if (index === refPosition && node.ref !== undefined) key += ` [ref=${node.ref}]`;
+    key += value === true ? ` [${attrName}]` : ` [${attrName}=${value}]`;
+  });
+  if (refPosition === attributes.length && node.ref !== undefined) key += ` [ref=${node.ref}]`;
+
+  return key;
+}
+
+/**
+ * A node's own line without indentation or "- ", e.g. `paragraph [ref=e4]: Some text`.
+ * Nodes with children or properties end in ":".
+ */
+export function formatNodeLine(node: SnapshotNode): string {
+  const key = formatNodeKey(node);
+  const yamlKey = needsQuotes(key) ? `'${key.replace(/'/g, "''")}'` : key;
+  if (node.text !== undefined) {
+    const text = needsQuotes(node.text) ? JSON.stringify(node.text) : node.text;
+    return `${yamlKey}: ${text}`;
+  }
+  const hasChildren = node.children.length > 0 || Object.keys(node.props).length > 0;
+  return hasChildren ? `${yamlKey}:` : yamlKey;
+}
+
+function serializeNodes(nodes: SnapshotNode[], depth: number, lines: string[]): void {
+  const indent = "  ".repeat(depth);
+  for (const node of nodes) {
+    lines.push(`${indent}- ${formatNodeLine(node)}`);
+    for (const [propName, value] of Object.entries(node.props)) {
+      lines.push(`${indent}  - /${propName}: ${needsQuotes(value) ? JSON.stringify(value) : value}`);
+    }
+    serializeNodes(node.children, depth + 1, lines);
+  }
+}
+
+/**
+ * Serialize nodes back to snapshot YAML (without a trailing newline).
+ */
+export function serializeSnapshot(nodes: SnapshotNode[]): string {
+  const lines: string[] = [];
+  serializeNodes(nodes, 0, lines);
+  return lines.join("\n");
+}
+
+/**
+ * Depth-first walk over all nodes; `visit` receives each node and its ancestors.
+ */
+export function walkSnapshot(
+  nodes: SnapshotNode[],
+  visit: (node: SnapshotNode, ancestors: SnapshotNode[]) => void,
+  ancestors: SnapshotNode[] = []
+): void {
+  for (const node of nodes) {
+    visit(node, ancestors);
+    walkSnapshot(node.children, visit, [...ancestors, node]);
+  }
+}
+
+/**
+ * All nodes matching `predicate`, in document order.
+ */
+export function findNodes(nodes: SnapshotNode[], predicate: (node: SnapshotNode) => boolean): SnapshotNode[] {
+  const found: SnapshotNode[] = [];
+  walkSnapshot(nodes, (node) => {
+    if (predicate(node)) found.push(node);
+  });
+  return found;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { BatchCollector } from "./batches.js";
+
+const request = (id: number) => ({ jsonrpc: "2.0", id, method: "tools/call", params: { name: "t" } });
+const response = (id: number) => ({ jsonrpc: "2.0", id, result: {} });
+
+describe("BatchCollector", () => {
+  it("returns all responses of a batch once the last one is in", () => {
+    const batches = new BatchCollector();
+    batches.start([request(1), { jsonrpc: "2.0", method: "notifications/initialized" }, request(2)]);
+
+    expect(batches.add(2, response(2))).toBeNull();
+    expect(batches.add(1, response(1))).toEqual([response(2), response(1)]);
+    expect(batches.size).toBe(0);
+  });
+
+  it("ignores requests that did not come in a batch", () => {
+    const batches = new BatchCollector();
+    batches.start([{ jsonrpc: "2.0", method: "notifications/initialized" }, response(7)]);
+
+    expect(batches.size).toBe(0);
+    expect(batches.add(1, response(1))).toBeUndefined();
+  });
+
+  it("completes a batch when a request is settled without a response", () => {
+    const batches = new BatchCollector();
+    batches.start([request(1), request(2)]);
+
+    expect(batches.add(1)).toBeNull();
+    expect(batches.add(2, response(2))).toEqual([response(2)]);
+
+    batches.start([request(3)]);
+    expect(batches.add(3)).toEqual([]);
+  });
+
+  it("lists the unanswered requests of batches that started long enough ago", () => {
+    const batches = new BatchCollector();
+    batches.start([request(1), { jsonrpc: "2.0", id: 2, method: "tools/list" }], 1000);
+    batches.start([request(3)], 5000);
+    batches.add(1, response(1));
+
+    expect(batches.expired(4000, 5000)).toEqual([{ id: 2, method: "tools/list" }]);
+    expect(batches.expired(4000, 9000)).toEqual([
+      { id: 2, method: "tools/list" },
+      { id: 3, method: "tools/call" },
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Collects the responses to a client's JSON-RPC batch, which is answered with one
+ * array. They come from the upstream, in any order, and from the proxy itself:
+ * locally answered tools, expired and failed calls.
+ */
+
+type RequestId = string | number;
+
+interface Batch {
+  /** Requests still waiting for their response -> their method */
+  pending: Map<RequestId, string>;
+  responses: unknown[];
+  startedAt: number;
+}
+
+export class BatchCollector {
+  // Request id -> the batch it came in
+  private batches = new Map<RequestId, Batch>();
+
+  get size(): number {
+    return this.batches.size;
+  }
+
+  /**
+   * Track the requests of a batch. Notifications and responses in it get no answer.
+   */
+  start(messages: unknown[], now = Date.now()): void {
+    const requests = messages.filter(
+      (message): message is { id: RequestId; method: string } =>
+        !!message &&
+        typeof message === "object" &&
+        "method" in message &&
+        typeof message.method === "string" &&
+        "id" in message &&
+        (typeof message.id === "string" || typeof message.id === "number")
+    );
+    if (requests.length === 0) return;
+
+    const batch: Batch = {
+      pending: new Map(requests.map((request) => [request.id, request.method])),
+      responses: [],
+      startedAt: now,
+    };
+    for (const { id } of requests) this.batches.set(id, batch);
+  }
+
+  /**
+   * Requests still unanswered in batches that started at least `timeoutMs` ago.
+   * They hold up the rest of their batch until they are settled.
+   */
+  expired(timeoutMs: number, now = Date.now()): { id: RequestId; method: string }[] {
+    const expired: { id: RequestId; method: string }[] = [];
+    for (const [id, batch] of this.batches) {
+      if (now - batch.startedAt >= timeoutMs) expired.push({ id, method: batch.pending.get(id)! });
+    }
+    return expired;
+  }
+
+  /**
+   * Add the response to request `id`, or settle it without one if it will not be
+   * answered, e.g. because it was cancelled. Returns undefined if the request did
+   * not come in a batch, null while its batch is incomplete, and all responses of
+   * the batch once this was the last one.
+   */
+  add(id: RequestId, response?: unknown): unknown[] | null | undefined {
+    const batch = this.batches.get(id);
+    if (!batch) return undefined;
+
+    this.batches.delete(id);
+    batch.pending.delete(id);
+    if (response !== undefined) batch.responses.push(response);
+    return batch.pending.size === 0 ? batch.responses : null;
+  }
+}
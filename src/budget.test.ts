@@ -0,0 +1,69 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BudgetTracker } from "./budget.js";
+import { BudgetPolicy } from "./config.js";
+import { SummarizerProvider } from "./providers.js";
+
+function provider(inputTokens: number, outputTokens: number): SummarizerProvider {
+  const fake: SummarizerProvider = {
+    name: "Fake",
+    model: "claude-haiku-4-5",
+    summarize: async () => ({ text: "summary", usage: { inputTokens, outputTokens } }),
+    withModel: () => fake,
+  };
+  return fake;
+}
+
+describe("BudgetTracker", () => {
+  let tempDir: string | null = null;
+
+  afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  function policy(overrides: Partial<BudgetPolicy>): BudgetPolicy {
+    tempDir = mkdtempSync(join(tmpdir(), "slim-budget-"));
+    return { downgradeMode: "truncate", pricing: {}, file: join(tempDir, "budget.json"), ...overrides };
+  }
+
+  it("is a no-op without limits", () => {
+    const tracker = new BudgetTracker({ downgradeMode: "truncate", pricing: {} });
+    const fake = provider(10, 10);
+    expect(tracker.enabled).toBe(false);
+    expect(tracker.track(fake)).toBe(fake);
+    expect(tracker.exhaustedReason()).toBeNull();
+  });
+
+  it("stops at the session token budget", async () => {
+    const tracker = new BudgetTracker(policy({ sessionTokens: 1500 }));
+    const tracked = tracker.track(provider(900, 100));
+    await tracked.summarize({ prompt: "p", maxTokens: 10 });
+    expect(tracker.exhaustedReason()).toBeNull();
+    await tracked.summarize({ prompt: "p", maxTokens: 10 });
+    expect(tracker.exhaustedReason()).toBe("session token budget (1500) exhausted");
+  });
+
+  it("prices usage by model, with config overrides", () => {
+    const tracker = new BudgetTracker(policy({ pricing: { "local-model": { input: 2, output: 0 } } }));
+    expect(tracker.cost("claude-haiku-4-5", { inputTokens: 1_000_000, outputTokens: 100_000 })).toBeCloseTo(1.5);
+    expect(tracker.cost("local-model", { inputTokens: 500_000, outputTokens: 1 })).toBeCloseTo(1);
+    expect(tracker.cost("unknown", { inputTokens: 1_000_000, outputTokens: 0 })).toBe(0);
+  });
+
+  it("shares the daily budget through the file and resets it the next day", async () => {
+    let today = "2026-01-01";
+    const daily = policy({ dailyCostUsd: 0.01 });
+    const first = new BudgetTracker(daily, () => today);
+    const second = new BudgetTracker(daily, () => today);
+
+    await first.track(provider(5000, 1000)).summarize({ prompt: "p", maxTokens: 10 });
+    expect(JSON.parse(readFileSync(daily.file!, "utf8"))).toEqual({ date: today, tokens: 6000, costUsd: 0.01 });
+    expect(second.exhaustedReason()).toBe("daily cost budget ($0.01) exhausted");
+
+    today = "2026-01-02";
+    expect(second.exhaustedReason()).toBeNull();
+  });
+});
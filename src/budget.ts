@@ -0,0 +1,147 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { dirname, join } from "path";
+import { BudgetPolicy } from "./config.js";
+import { log } from "./logger.js";
+import { SummarizeRequest, SummarizeResult, SummarizerProvider } from "./providers.js";
+
+// USD per million tokens; config pricing is merged over these
+const DEFAULT_PRICING: Record<string, { input: number; output: number }> = {
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+};
+
+export const DEFAULT_BUDGET_FILE = join(homedir(), ".cache", "playwright-slim-mcp", "budget.json");
+
+interface Spend {
+  tokens: number;
+  costUsd: number;
+}
+
+interface DailySpend extends Spend {
+  /** Local calendar date, YYYY-MM-DD */
+  date: string;
+}
+
+function localDate(now: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+/**
+ * Tracks summarizer spend against the configured budgets. Session totals live in
+ * memory; daily totals are kept in a file so every proxy on the machine shares them.
+ */
+export class BudgetTracker {
+  private session: Spend = { tokens: 0, costUsd: 0 };
+  private pricing: Record<string, { input: number; output: number }>;
+  private filePath: string;
+
+  constructor(
+    private policy: BudgetPolicy,
+    private today: () => string = localDate
+  ) {
+    this.pricing = { ...DEFAULT_PRICING, ...policy.pricing };
+    this.filePath = policy.file ?? DEFAULT_BUDGET_FILE;
+  }
+
+  private get hasDailyLimit(): boolean {
+    return this.policy.dailyTokens !== undefined || this.policy.dailyCostUsd !== undefined;
+  }
+
+  get enabled(): boolean {
+    return this.hasDailyLimit || this.policy.sessionTokens !== undefined || this.policy.sessionCostUsd !== undefined;
+  }
+
+  get downgradeMode(): BudgetPolicy["downgradeMode"] {
+    return this.policy.downgradeMode;
+  }
+
+  /**
+   * Cost of a request in USD, or 0 for models without a known price (e.g. local ones).
+   */
+  cost(model: string, usage: NonNullable<SummarizeResult["usage"]>): number {
+    const price = this.pricing[model];
+    if (!price) return 0;
+    return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+  }
+
+  private readDaily(): DailySpend {
+    const date = this.today();
+    try {
+      const data = JSON.parse(readFileSync(this.filePath, "utf8")) as Partial<DailySpend>;
+      if (data.date === date) {
+        return { date, tokens: Number(data.tokens) || 0, costUsd: Number(data.costUsd) || 0 };
+      }
+    } catch {
+      // No spend recorded yet
+    }
+    return { date, tokens: 0, costUsd: 0 };
+  }
+
+  private writeDaily(daily: DailySpend): void {
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(this.filePath, JSON.stringify(daily));
+    } catch (err) {
+      log("ERROR", "Could not save budget file", { filePath: this.filePath, error: String(err) });
+    }
+  }
+
+  record(model: string, usage: SummarizeResult["usage"]): void {
+    if (!usage || !this.enabled) return;
+    const tokens = usage.inputTokens + usage.outputTokens;
+    const costUsd = this.cost(model, usage);
+    this.session.tokens += tokens;
+    this.session.costUsd += costUsd;
+
+    if (this.hasDailyLimit) {
+      // Re-read so spend from other proxies since our last write is kept
+      const daily = this.readDaily();
+      this.writeDaily({ date: daily.date, tokens: daily.tokens + tokens, costUsd: daily.costUsd + costUsd });
+    }
+  }
+
+  /**
+   * Why summarization must stop, or null while every budget has room left.
+   */
+  exhaustedReason(): string | null {
+    const { sessionTokens, sessionCostUsd, dailyTokens, dailyCostUsd } = this.policy;
+    if (sessionTokens !== undefined && this.session.tokens >= sessionTokens) {
+      return `session token budget (${sessionTokens}) exhausted`;
+    }
+    if (sessionCostUsd !== undefined && this.session.costUsd >= sessionCostUsd) {
+      return `session cost budget ($${sessionCostUsd}) exhausted`;
+    }
+    if (!this.hasDailyLimit) return null;
+
+    const daily = this.readDaily();
+    if (dailyTokens !== undefined && daily.tokens >= dailyTokens) {
+      return `daily token budget (${dailyTokens}) exhausted`;
+    }
+    if (dailyCostUsd !== undefined && daily.costUsd >= dailyCostUsd) {
+      return `daily cost budget ($${dailyCostUsd}) exhausted`;
+    }
+    return null;
+  }
+
+  /**
+   * The same provider, with every request's usage counted against the budget.
+   */
+  track(provider: SummarizerProvider): SummarizerProvider {
+    if (!this.enabled) return provider;
+    return {
+      name: provider.name,
+      model: provider.model,
+      summarize: async (request: SummarizeRequest) => {
+        const result = await provider.summarize(request);
+        this.record(provider.model, result.usage);
+        return result;
+      },
+      withModel: (model: string) => this.track(provider.withModel(model)),
+    };
+  }
+}
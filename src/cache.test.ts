@@ -0,0 +1,70 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync, existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { SummaryCache, summaryCacheFromEnv } from "./cache.js";
+
+describe("SummaryCache", () => {
+  let tempDir: string | null = null;
+
+  afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it("derives distinct keys from the parts", () => {
+    expect(SummaryCache.key("ab", "c")).not.toBe(SummaryCache.key("a", "bc"));
+    expect(SummaryCache.key("a", "b")).toBe(SummaryCache.key("a", "b"));
+  });
+
+  it("counts hits and misses", () => {
+    const cache = new SummaryCache({ maxEntries: 10, maxBytes: 1000 });
+    expect(cache.get("k")).toBeUndefined();
+    cache.set("k", "summary");
+    expect(cache.get("k")).toBe("summary");
+    expect({ hits: cache.hits, misses: cache.misses }).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it("evicts the least recently used entry when over maxEntries", () => {
+    const cache = new SummaryCache({ maxEntries: 2, maxBytes: 1000 });
+    cache.set("a", "1");
+    cache.set("b", "2");
+    cache.get("a");
+    cache.set("c", "3");
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe("1");
+    expect(cache.get("c")).toBe("3");
+  });
+
+  it("evicts entries when over maxBytes and skips oversized values", () => {
+    const cache = new SummaryCache({ maxEntries: 10, maxBytes: 10 });
+    cache.set("a", "12345");
+    cache.set("b", "123456");
+    cache.set("c", "x".repeat(11));
+    expect(cache.size).toBe(1);
+    expect(cache.get("b")).toBe("123456");
+  });
+
+  it("persists entries to disk across instances", () => {
+    tempDir = mkdtempSync(join(tmpdir(), "slim-cache-"));
+    const filePath = join(tempDir, "nested", "cache.json");
+
+    const first = new SummaryCache({ maxEntries: 10, maxBytes: 1000, filePath });
+    first.set("k", "persisted");
+    first.flush();
+    expect(existsSync(filePath)).toBe(true);
+
+    const second = new SummaryCache({ maxEntries: 10, maxBytes: 1000, filePath });
+    expect(second.get("k")).toBe("persisted");
+  });
+});
+
+describe("summaryCacheFromEnv", () => {
+  it("can be disabled", () => {
+    expect(summaryCacheFromEnv({ PLAYWRIGHT_SLIM_CACHE: "0" })).toBeNull();
+  });
+
+  it("is enabled by default", () => {
+    expect(summaryCacheFromEnv({})).toBeInstanceOf(SummaryCache);
+  });
+});
@@ -0,0 +1,136 @@
+import { createHash } from "crypto";
+import { readFileSync, writeFileSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { log } from "./logger.js";
+
+export interface SummaryCacheOptions {
+  /** Max number of cached summaries */
+  maxEntries: number;
+  /** Max total size of cached summaries (chars) */
+  maxBytes: number;
+  /** Persist the cache to this JSON file between sessions */
+  filePath?: string;
+}
+
+// Delay before writing the cache file, so bursts of summaries cause one write
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Content-addressed LRU cache for snapshot summaries.
+ * Keys are hashes of everything that determines the summary (backend, model, prompt).
+ */
+export class SummaryCache {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private entries = new Map<string, string>();
+  private totalBytes = 0;
+  private saveTimer: NodeJS.Timeout | null = null;
+  hits = 0;
+  misses = 0;
+
+  constructor(private options: SummaryCacheOptions) {
+    if (options.filePath) this.load(options.filePath);
+  }
+
+  static key(...parts: string[]): string {
+    const hash = createHash("sha256");
+    for (const part of parts) {
+      // Length-prefix each part so ("ab", "c") and ("a", "bc") hash differently
+      hash.update(`${part.length}:${part}`);
+    }
+    return hash.digest("hex");
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(key: string): string | undefined {
+    const value = this.entries.get(key);
+    if (value === undefined) {
+      this.misses++;
+      log("DEBUG", "Summary cache miss", { key, hits: this.hits, misses: this.misses });
+      return undefined;
+    }
+
+    this.hits++;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    log("DEBUG", "Summary cache hit", { key, hits: this.hits, misses: this.misses });
+    return value;
+  }
+
+  set(key: string, value: string): void {
+    if (value.length > this.options.maxBytes) return;
+
+    const existing = this.entries.get(key);
+    if (existing !== undefined) {
+      this.totalBytes -= existing.length;
+      this.entries.delete(key);
+    }
+    this.entries.set(key, value);
+    this.totalBytes += value.length;
+    this.evict();
+    this.scheduleSave();
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.options.maxEntries || this.totalBytes > this.options.maxBytes) {
+      const [oldestKey, oldestValue] = this.entries.entries().next().value!;
+      this.entries.delete(oldestKey);
+      this.totalBytes -= oldestValue.length;
+    }
+  }
+
+  private load(filePath: string): void {
+    try {
+      const data = JSON.parse(readFileSync(filePath, "utf8")) as { entries?: [string, string][] };
+      for (const [key, value] of data.entries ?? []) {
+        this.entries.set(key, value);
+        this.totalBytes += value.length;
+      }
+      this.evict();
+      log("INFO", "Loaded summary cache", { filePath, entries: this.entries.size });
+    } catch (err) {
+      // A missing or corrupt cache file just means starting cold
+      log("DEBUG", "Could not load summary cache", { filePath, error: String(err) });
+    }
+  }
+
+  private scheduleSave(): void {
+    if (!this.options.filePath || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  /**
+   * Write the cache file now, if persistence is enabled and there are unsaved changes.
+   */
+  flush(): void {
+    if (!this.options.filePath || !this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+
+    try {
+      mkdirSync(dirname(this.options.filePath), { recursive: true });
+      writeFileSync(this.options.filePath, JSON.stringify({ entries: [...this.entries] }));
+    } catch (err) {
+      log("ERROR", "Could not save summary cache", { filePath: this.options.filePath, error: String(err) });
+    }
+  }
+}
+
+/**
+ * Create the summary cache from the environment, or null if disabled:
+ * - PLAYWRIGHT_SLIM_CACHE: set to 0 to disable caching
+ * - PLAYWRIGHT_SLIM_CACHE_MAX_ENTRIES: max cached summaries (default 200)
+ * - PLAYWRIGHT_SLIM_CACHE_MAX_BYTES: max total summary size in chars (default 5MB)
+ * - PLAYWRIGHT_SLIM_CACHE_FILE: persist the cache to this file
+ */
+export function summaryCacheFromEnv(env: NodeJS.ProcessEnv): SummaryCache | null {
+  if (env.PLAYWRIGHT_SLIM_CACHE === "0") return null;
+  return new SummaryCache({
+    maxEntries: Number(env.PLAYWRIGHT_SLIM_CACHE_MAX_ENTRIES) || 200,
+    maxBytes: Number(env.PLAYWRIGHT_SLIM_CACHE_MAX_BYTES) || 5_000_000,
+    filePath: env.PLAYWRIGHT_SLIM_CACHE_FILE,
+  });
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency, splitSnapshot } from "./chunking.js";
+
+describe("splitSnapshot", () => {
+  it("returns small snapshots as a single chunk", () => {
+    expect(splitSnapshot("- button [ref=e1]", 100)).toEqual(["- button [ref=e1]"]);
+  });
+
+  it("packs top-level subtrees without splitting them", () => {
+    const yaml = ["- banner:", "  - link \"Home\" [ref=e1]", "- main:", "  - button \"Go\" [ref=e2]", "- footer"].join(
+      "\n"
+    );
+    const chunks = splitSnapshot(yaml, 45);
+    expect(chunks).toEqual(['- banner:\n  - link "Home" [ref=e1]', '- main:\n  - button "Go" [ref=e2]\n- footer']);
+    expect(chunks.join("\n")).toBe(yaml);
+  });
+
+  it("descends into an oversized root and repeats its header", () => {
+    const children = Array.from({ length: 6 }, (_, i) => `  - button "Action ${i}" [ref=e${i}]`);
+    const yaml = ["- generic [ref=root]:", ...children].join("\n");
+
+    const chunks = splitSnapshot(yaml, 90);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.startsWith("- generic [ref=root]:\n")).toBe(true);
+      expect(chunk.length).toBeLessThanOrEqual(90);
+    }
+    // Every ref ends up in exactly one chunk
+    for (let i = 0; i < 6; i++) {
+      expect(chunks.filter((c) => c.includes(`[ref=e${i}]`))).toHaveLength(1);
+    }
+  });
+
+  it("cuts single lines longer than the limit", () => {
+    const chunks = splitSnapshot(`- text: ${"x".repeat(100)}`, 50);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].length).toBe(50);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("preserves order and bounds the calls in flight", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      inFlight--;
+      return index;
+    });
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(2);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Splitting of oversized snapshots into chunks that can be summarized separately.
+ *
+ * Chunks follow the YAML structure: consecutive top-level subtrees are packed
+ * together, and a subtree that is too big on its own is split along its children
+ * (repeating its header line in each chunk so the context is not lost).
+ */
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Group lines into subtrees starting at the shallowest indentation.
+ */
+function groupSubtrees(lines: string[]): string[][] {
+  const minIndent = Math.min(...lines.filter((l) => l.trim() !== "").map(indentOf));
+  const groups: string[][] = [];
+  for (const line of lines) {
+    if (line.trim() === "") continue;
+    if (indentOf(line) <= minIndent || groups.length === 0) {
+      groups.push([line]);
+    } else {
+      groups[groups.length - 1].push(line);
+    }
+  }
+  return groups;
+}
+
+function size(lines: string[]): number {
+  return lines.reduce((total, line) => total + line.length + 1, 0);
+}
+
+function splitLines(lines: string[], maxSize: number, headers: string[]): string[][] {
+  const budget = maxSize - size(headers);
+  const chunks: string[][] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) chunks.push([...headers, ...current]);
+    current = [];
+  };
+
+  for (const group of groupSubtrees(lines)) {
+    if (size(group) > budget) {
+      flush();
+      if (group.length > 1 && size([group[0]]) < budget) {
+        // Too big on its own - descend into its children, keeping the parent as context
+        chunks.push(...splitLines(group.slice(1), maxSize, [...headers, group[0]]));
+      } else {
+        // A single huge line (e.g. a long text node) - cut it
+        chunks.push([...headers, group[0].slice(0, Math.max(budget, 1))]);
+      }
+      continue;
+    }
+    if (size(current) + size(group) > budget) flush();
+    current.push(...group);
+  }
+  flush();
+
+  return chunks;
+}
+
+/**
+ * Split a snapshot YAML into chunks of at most `maxSize` chars (plus repeated
+ * header lines in pathological nesting), along subtree boundaries.
+ */
+export function splitSnapshot(snapshotYaml: string, maxSize: number): string[] {
+  if (snapshotYaml.length <= maxSize) return [snapshotYaml];
+  return splitLines(snapshotYaml.split("\n"), maxSize, []).map((chunk) => chunk.join("\n"));
+}
+
+/**
+ * Map over `items` with at most `limit` calls of `fn` in flight, preserving order.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+
+import { main } from "./index.js";
+
+main().catch((err) => {
+  console.error("Failed to start Playwright MCP proxy:", err);
+  process.exit(1);
+});
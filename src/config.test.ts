@@ -0,0 +1,235 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ConfigError,
+  defaultConfig,
+  findConfigFile,
+  loadConfig,
+  resolveToolPolicy,
+  validateConfig,
+} from "./config.js";
+
+describe("defaultConfig", () => {
+  it("diffs by default and summarizes navigation in full", () => {
+    const config = defaultConfig({});
+    expect(resolveToolPolicy(config, "browser_click")).toEqual({ mode: "diff", minSize: 500, maxSize: 100000 });
+    expect(resolveToolPolicy(config, "browser_navigate").mode).toBe("summarize");
+    expect(resolveToolPolicy(config, "browser_snapshot_full").mode).toBe("passthrough");
+    expect(config.aliases.browser_snapshot_full.tool).toBe("browser_snapshot");
+  });
+
+  it("falls back to full summaries when PLAYWRIGHT_SLIM_DIFF=0", () => {
+    expect(defaultConfig({ PLAYWRIGHT_SLIM_DIFF: "0" }).defaults.mode).toBe("summarize");
+  });
+});
+
+describe("validateConfig", () => {
+  it("merges tool policies and aliases over the defaults", () => {
+    const config = validateConfig(
+      {
+        model: "claude-sonnet-4-5",
+        defaults: { minSize: 1000 },
+        tools: {
+          browser_navigate: { mode: "passthrough" },
+          browser_click: { mode: "summarize", model: "claude-haiku-4-5" },
+        },
+        aliases: { browser_look: "browser_snapshot" },
+      },
+      "test"
+    );
+
+    expect(config.model).toBe("claude-sonnet-4-5");
+    expect(resolveToolPolicy(config, "browser_navigate")).toEqual({
+      mode: "passthrough",
+      minSize: 1000,
+      maxSize: 100000,
+    });
+    expect(resolveToolPolicy(config, "browser_click").model).toBe("claude-haiku-4-5");
+    expect(config.aliases.browser_look).toEqual({ tool: "browser_snapshot" });
+    expect(config.aliases.browser_snapshot_full).toBeDefined();
+  });
+
+  it("reports every problem at once", () => {
+    let error: unknown;
+    try {
+      validateConfig(
+        {
+          colour: "blue",
+          defaults: { mode: "shrink" },
+          tools: { browser_click: { maxSize: -1 } },
+          aliases: { broken: { name: "x" } },
+        },
+        "playwright-slim.config.json"
+      );
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).toBeInstanceOf(ConfigError);
+    const message = (error as Error).message;
+    expect(message).toContain("Invalid config in playwright-slim.config.json");
+    expect(message).toContain("colour: unknown option");
+    expect(message).toContain("defaults.mode: expected one of diff, summarize, passthrough, truncate");
+    expect(message).toContain("tools.browser_click.maxSize: expected a non-negative integer");
+    expect(message).toContain('aliases.broken: expected a tool name or { "tool": "<name>" }');
+  });
+
+  it("validates the events policy", () => {
+    const config = validateConfig({ events: { noisePatterns: ["analytics"] } }, "test.json");
+    expect(config.events.noisePatterns).toEqual(["analytics"]);
+    expect(config.events.collapseLevels).toEqual(defaultConfig({}).events.collapseLevels);
+
+    expect(() => validateConfig({ events: { noisePatterns: ["("], levels: [] } }, "test.json")).toThrow(
+      /invalid regular expression[\s\S]*events\.levels: unknown option/
+    );
+  });
+
+  it("validates the network policy", () => {
+    expect(validateConfig({ network: { maxRequests: 10 } }, "test.json").network).toEqual({
+      showStaticAssets: false,
+      maxRequests: 10,
+    });
+    expect(() => validateConfig({ network: { showStaticAssets: "yes" } }, "test.json")).toThrow(
+      /network\.showStaticAssets: expected a boolean/
+    );
+  });
+
+  it("validates the budget", () => {
+    const config = validateConfig(
+      { budget: { dailyCostUsd: 5, downgradeMode: "passthrough", pricing: { "my-model": { input: 1, output: 2 } } } },
+      "test.json"
+    );
+    expect(config.budget).toEqual({
+      dailyCostUsd: 5,
+      downgradeMode: "passthrough",
+      pricing: { "my-model": { input: 1, output: 2 } },
+    });
+    expect(() => validateConfig({ budget: { sessionTokens: 0, pricing: { m: 1 } } }, "test.json")).toThrow(
+      /budget\.sessionTokens: expected a positive number[\s\S]*budget\.pricing\.m/
+    );
+  });
+
+  it("validates the failure policy", () => {
+    expect(validateConfig({ failure: { mode: "fallback", fallback: "prune" } }, "test.json").failure).toEqual({
+      ...defaultConfig({}).failure,
+      mode: "fallback",
+      fallback: "prune",
+    });
+    expect(() => validateConfig({ failure: { mode: "ignore", retries: -1 } }, "test.json")).toThrow(
+      /failure\.mode: expected one of error, retry, fallback[\s\S]*failure\.retries/
+    );
+  });
+
+  it("validates the image policy", () => {
+    expect(defaultConfig({}).images.mode).toBe("passthrough");
+    expect(defaultConfig({ PLAYWRIGHT_SLIM_IMAGES: "describe" }).images.mode).toBe("describe");
+    expect(validateConfig({ images: { maxWidth: 800, model: "claude-sonnet-4-5" } }, "test.json").images).toEqual({
+      ...defaultConfig({}).images,
+      maxWidth: 800,
+      model: "claude-sonnet-4-5",
+    });
+    expect(() => validateConfig({ images: { mode: "blur", quality: 0 } }, "test.json")).toThrow(
+      /images\.mode: expected one of passthrough, downscale, describe[\s\S]*images\.quality/
+    );
+  });
+
+  it("validates the overflow cap", () => {
+    expect(validateConfig({ overflow: { maxResponseSize: 0 } }, "test.json").overflow).toEqual({
+      ...defaultConfig({}).overflow,
+      maxResponseSize: 0,
+    });
+    expect(() => validateConfig({ overflow: { maxResponseSize: 1000, previewSize: 1000 } }, "test.json")).toThrow(
+      /overflow\.previewSize: must be smaller than maxResponseSize/
+    );
+  });
+
+  it("validates the HTTP server options", () => {
+    expect(validateConfig({ http: { port: 9000, maxSessions: 2 } }, "test.json").http).toMatchObject({
+      host: "127.0.0.1",
+      port: 9000,
+      maxSessions: 2,
+    });
+    expect(() => validateConfig({ http: { path: "mcp", idleTimeoutMs: 0 } }, "test.json")).toThrow(
+      /http\.path: expected a path starting with "\/"[\s\S]*http\.idleTimeoutMs/
+    );
+  });
+
+  it("validates the upstream options", () => {
+    expect(defaultConfig({ PLAYWRIGHT_SLIM_UPSTREAM_URL: "http://browser-host:8931/mcp" }).upstream.url).toBe(
+      "http://browser-host:8931/mcp"
+    );
+    expect(validateConfig({ upstream: { url: "http://localhost:8931/sse" } }, "test.json").upstream).toMatchObject({
+      url: "http://localhost:8931/sse",
+      transport: "auto",
+    });
+    expect(() => validateConfig({ upstream: { url: "ws://localhost", transport: "websocket" } }, "test.json")).toThrow(
+      /upstream\.url: expected an http\(s\) URL[\s\S]*upstream\.transport: expected one of/
+    );
+  });
+
+  it("validates the upstream command", () => {
+    const { upstream } = validateConfig(
+      { upstream: { command: "uvx", args: ["mcp-server-sqlite"], env: { DB: "test.db" } } },
+      "test.json"
+    );
+    expect(upstream).toMatchObject({ command: "uvx", args: ["mcp-server-sqlite"], env: { DB: "test.db" } });
+    expect(() => validateConfig({ upstream: { command: "", args: "x", env: { PORT: 1 } } }, "test.json")).toThrow(
+      /upstream\.command[\s\S]*upstream\.args[\s\S]*upstream\.env/
+    );
+  });
+
+  it("validates the preset and transformers", () => {
+    const transform = (text: string) => text;
+    const config = validateConfig({ preset: "none", transformers: [{ tools: /^query/, transform }] }, "test.js");
+    expect(config.preset).toBe("none");
+    expect(config.transformers).toEqual([{ tools: /^query/, transform }]);
+    expect(defaultConfig({}).preset).toBe("playwright");
+
+    expect(() =>
+      validateConfig({ preset: "postgres", transformers: [{ tools: "query", transform: "trim" }] }, "test.json")
+    ).toThrow(/preset: expected one of playwright, none[\s\S]*transformers\[0\]\.transform: expected a function/);
+  });
+
+  it("rejects non-object configs", () => {
+    expect(() => validateConfig([], "test")).toThrow(ConfigError);
+  });
+});
+
+describe("loadConfig", () => {
+  let tempDir: string;
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("uses the defaults without a config file", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "slim-config-"));
+    const { config, path } = await loadConfig([], {}, tempDir);
+    expect(path).toBeNull();
+    expect(config).toEqual(defaultConfig({}));
+  });
+
+  it("finds a JSON config in the working directory", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "slim-config-"));
+    writeFileSync(join(tempDir, "playwright-slim.config.json"), JSON.stringify({ model: "m" }));
+    const { config, path } = await loadConfig([], {}, tempDir);
+    expect(path).toBe(join(tempDir, "playwright-slim.config.json"));
+    expect(config.model).toBe("m");
+  });
+
+  it("loads a JS config given by flag", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "slim-config-"));
+    writeFileSync(join(tempDir, "custom.mjs"), 'export default { tools: { browser_click: { mode: "truncate" } } };');
+    const { config } = await loadConfig(["--slim-config=custom.mjs"], {}, tempDir);
+    expect(resolveToolPolicy(config, "browser_click").mode).toBe("truncate");
+  });
+
+  it("reports unparseable files and missing explicit paths", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "slim-config-"));
+    writeFileSync(join(tempDir, "playwright-slim.config.json"), "{ not json");
+    await expect(loadConfig([], {}, tempDir)).rejects.toThrow(/could not be read/);
+    expect(() => findConfigFile([], { PLAYWRIGHT_SLIM_CONFIG: "missing.json" }, tempDir)).toThrow(/file not found/);
+  });
+});
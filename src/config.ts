@@ -0,0 +1,900 @@
+import { existsSync, readFileSync } from "fs";
+import { resolve } from "path";
+import { pathToFileURL } from "url";
+import { TextTransformer } from "./transformers.js";
+
+/**
+ * What the proxy does with a tool's snapshot:
+ * - "diff": return changes since the previous snapshot of the same page, else summarize
+ * - "summarize": always return a full summary
+ * - "passthrough": return the response unchanged
+ * - "truncate": cut the snapshot YAML to maxSize without summarizing
+ */
+export type ToolMode = "diff" | "summarize" | "passthrough" | "truncate";
+
+const TOOL_MODES: readonly ToolMode[] = ["diff", "summarize", "passthrough", "truncate"];
+
+/**
+ * How refs in model-written summaries are checked against the snapshot:
+ * - "strip": correct invalid refs where possible, remove the rest
+ * - "reprompt": ask the model once more, then correct/strip what is still wrong
+ * - "off": trust the model
+ */
+export type RefValidationMode = "strip" | "reprompt" | "off";
+
+const REF_VALIDATION_MODES: readonly RefValidationMode[] = ["strip", "reprompt", "off"];
+
+export interface ToolPolicy {
+  mode: ToolMode;
+  /** Snapshots smaller than this (chars) are passed through unchanged */
+  minSize: number;
+  /** Max snapshot size (chars) sent to the summarizer in one request, or kept when truncating */
+  maxSize: number;
+  /** Summarization model override for this tool */
+  model?: string;
+}
+
+export interface ToolAlias {
+  /** The real upstream tool the alias is forwarded to */
+  tool: string;
+  description?: string;
+  title?: string;
+}
+
+/**
+ * How the Events and console message sections are compressed.
+ * ERROR lines are always kept, whatever these say.
+ */
+export interface EventsPolicy {
+  /** Levels (e.g. "DEBUG") whose lines are replaced by a single count */
+  collapseLevels: string[];
+  /** Regex sources; matching lines are hidden and counted */
+  noisePatterns: string[];
+}
+
+/**
+ * How browser_network_requests listings are rendered.
+ */
+export interface NetworkPolicy {
+  /** List images, fonts, CSS and JS instead of only counting them */
+  showStaticAssets: boolean;
+  /** Max requests listed, for failed and successful requests each */
+  maxRequests: number;
+}
+
+/**
+ * Summarization spend limits. Unset limits are not enforced.
+ */
+export interface BudgetPolicy {
+  /** Summarizer tokens (input + output) per proxy session */
+  sessionTokens?: number;
+  /** Summarizer tokens (input + output) per calendar day, across sessions */
+  dailyTokens?: number;
+  sessionCostUsd?: number;
+  dailyCostUsd?: number;
+  /** Mode used for tools that would summarize once a budget is exhausted */
+  downgradeMode: "truncate" | "passthrough";
+  /** File the daily totals are kept in */
+  file?: string;
+  /** USD per million tokens by model, merged over the built-in prices */
+  pricing: Record<string, { input: number; output: number }>;
+}
+
+const DOWNGRADE_MODES: readonly BudgetPolicy["downgradeMode"][] = ["truncate", "passthrough"];
+
+/**
+ * What happens when summarization fails:
+ * - "error": return a JSON-RPC error (the browser action still happened)
+ * - "retry": retry with exponential backoff, then return an error
+ * - "fallback": retry, then return a truncated or pruned snapshot marked as degraded
+ */
+export interface FailurePolicy {
+  mode: "error" | "retry" | "fallback";
+  /** Retries after the first attempt (retry and fallback modes) */
+  retries: number;
+  /** Delay before the first retry, doubled for each further one */
+  backoffMs: number;
+  /** Max time for one summarizer request (retry and fallback modes) */
+  timeoutMs: number;
+  /** What the snapshot is replaced with in fallback mode */
+  fallback: "truncate" | "prune";
+}
+
+const FAILURE_MODES: readonly FailurePolicy["mode"][] = ["error", "retry", "fallback"];
+const FALLBACKS: readonly FailurePolicy["fallback"][] = ["truncate", "prune"];
+
+/**
+ * What happens to image content, e.g. browser_take_screenshot results:
+ * - "passthrough": returned unchanged
+ * - "downscale": shrunk to `maxWidth` and re-encoded as JPEG under `maxBytes`
+ * - "describe": replaced with a vision model's description of the image
+ * Changed images stay fetchable at full size with slim_fetch_image.
+ */
+export interface ImagePolicy {
+  mode: "passthrough" | "downscale" | "describe";
+  /** Max width in pixels; the height is scaled to match, so full-page screenshots stay legible */
+  maxWidth: number;
+  /** Max size of a downscaled image in bytes */
+  maxBytes: number;
+  /** JPEG quality to start from (1-100); lowered if the image does not fit `maxBytes` */
+  quality: number;
+  /** Vision model for describe mode, defaults to the summarization model */
+  model?: string;
+  /** Total bytes of original images kept for slim_fetch_image; the oldest are dropped first */
+  stashBytes: number;
+}
+
+const IMAGE_MODES: readonly ImagePolicy["mode"][] = ["passthrough", "downscale", "describe"];
+
+/**
+ * Hard cap on the text of one tool response. Text over it goes into the stash,
+ * readable with slim_fetch_result, and the response gets a preview instead.
+ */
+export interface OverflowPolicy {
+  /** Max chars of text in one response, 0 for no cap */
+  maxResponseSize: number;
+  /** Chars of the start and end of stashed text shown in the response */
+  previewSize: number;
+  /** Total chars of output kept for slim_fetch_result; the oldest is dropped first */
+  stashSize: number;
+}
+
+/**
+ * Streamable HTTP server mode, enabled with --slim-http[=<port>].
+ */
+export interface HttpPolicy {
+  host: string;
+  /** Port used by a bare --slim-http */
+  port: number;
+  /** Path of the MCP endpoint */
+  path: string;
+  /** Concurrent sessions, each with its own upstream browser */
+  maxSessions: number;
+  /** Sessions without requests for this long are closed */
+  idleTimeoutMs: number;
+}
+
+/**
+ * The MCP server being slimmed: spawned locally from `command`, or reached at `url`.
+ */
+export interface UpstreamPolicy {
+  /** Command the upstream is spawned with; the proxy's own CLI arguments are appended to `args` */
+  command: string;
+  args: string[];
+  /** Extra environment variables for the spawned upstream */
+  env: Record<string, string>;
+  /** A running MCP server, e.g. http://browser-host:8931/mcp; overrides `command` */
+  url?: string;
+  /** "auto" uses SSE for URLs ending in /sse, Streamable HTTP otherwise */
+  transport: "auto" | "streamable-http" | "sse";
+  /** Delay before the first reconnect attempt, doubled for each further one */
+  reconnectDelayMs: number;
+  /** Failed reconnect attempts in a row before the session ends */
+  maxReconnectAttempts: number;
+}
+
+const UPSTREAM_TRANSPORTS: readonly UpstreamPolicy["transport"][] = ["auto", "streamable-http", "sse"];
+
+/**
+ * Built-in transformers registered before the config's own:
+ * - "playwright": snapshot summaries and diffs, compact network listings and events
+ * - "none": only the config's transformers, for other MCP servers
+ */
+export type Preset = "playwright" | "none";
+
+const PRESETS: readonly Preset[] = ["playwright", "none"];
+
+export interface SlimConfig {
+  /** Summarization model, overrides PLAYWRIGHT_SLIM_MODEL */
+  model?: string;
+  preset: Preset;
+  /** Transformers run after the preset's, only settable from a .js config file */
+  transformers: TextTransformer[];
+  refValidation: RefValidationMode;
+  /** Policy for tools without an entry in `tools` */
+  defaults: ToolPolicy;
+  /** Per-tool overrides, merged over `defaults` */
+  tools: Record<string, Partial<ToolPolicy>>;
+  /** Extra tool names injected into tools/list, keyed by alias name */
+  aliases: Record<string, ToolAlias>;
+  events: EventsPolicy;
+  network: NetworkPolicy;
+  budget: BudgetPolicy;
+  failure: FailurePolicy;
+  images: ImagePolicy;
+  overflow: OverflowPolicy;
+  http: HttpPolicy;
+  upstream: UpstreamPolicy;
+}
+
+export const CONFIG_FILE_NAMES = ["playwright-slim.config.json", "playwright-slim.config.js"];
+
+export class ConfigError extends Error {
+  constructor(source: string, issues: string[]) {
+    super(`Invalid config in ${source}:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Built-in behavior, used as the base that config files are merged over.
+ * Set PLAYWRIGHT_SLIM_DIFF=0 to default to full summaries instead of diffs, and
+ * PLAYWRIGHT_SLIM_IMAGES to change the image mode.
+ */
+export function defaultConfig(env: NodeJS.ProcessEnv = process.env): SlimConfig {
+  return {
+    preset: "playwright",
+    transformers: [],
+    refValidation: "strip",
+    defaults: {
+      mode: env.PLAYWRIGHT_SLIM_DIFF === "0" ? "summarize" : "diff",
+      minSize: 500,
+      // ~100KB keeps us well under token limits
+      maxSize: 100000,
+    },
+    tools: {
+      // Explicit snapshot requests and navigation always get a full summary
+      browser_snapshot: { mode: "summarize" },
+      browser_navigate: { mode: "summarize" },
+      browser_navigate_back: { mode: "summarize" },
+      browser_navigate_forward: { mode: "summarize" },
+      browser_snapshot_full: { mode: "passthrough" },
+    },
+    aliases: {
+      browser_snapshot_full: {
+        tool: "browser_snapshot",
+        description: "Capture full accessibility snapshot without summarization",
+        title: "Full page snapshot (unsummarized)",
+      },
+    },
+    events: {
+      collapseLevels: ["DEBUG", "INFO", "VERBOSE"],
+      // Dev-server and devtools chatter that says nothing about the page
+      noisePatterns: [
+        "\\[HMR\\]",
+        "\\[vite\\] (connecting|connected|hot updated|page reload)",
+        "\\[webpack-dev-server\\]",
+        "Download the (React|Vue|Apollo) DevTools",
+      ],
+    },
+    network: {
+      showStaticAssets: false,
+      maxRequests: 50,
+    },
+    budget: {
+      downgradeMode: "truncate",
+      pricing: {},
+    },
+    failure: {
+      mode: "error",
+      retries: 2,
+      backoffMs: 500,
+      timeoutMs: 30000,
+      fallback: "truncate",
+    },
+    images: {
+      // Images are left alone unless asked for, since shrinking changes what the agent sees
+      mode: IMAGE_MODES.find((mode) => mode === env.PLAYWRIGHT_SLIM_IMAGES) ?? "passthrough",
+      // Large enough to read page text, a fraction of a full-HD screenshot's tokens
+      maxWidth: 1280,
+      maxBytes: 200000,
+      quality: 80,
+      stashBytes: 50 * 1024 * 1024,
+    },
+    overflow: {
+      // ~10k tokens
+      maxResponseSize: 40000,
+      previewSize: 2000,
+      stashSize: 50_000_000,
+    },
+    http: {
+      // Local only by default - sessions drive real browsers
+      host: "127.0.0.1",
+      port: 8932,
+      path: "/mcp",
+      maxSessions: 8,
+      idleTimeoutMs: 30 * 60 * 1000,
+    },
+    upstream: {
+      command: "npx",
+      args: ["@playwright/mcp"],
+      env: {},
+      url: env.PLAYWRIGHT_SLIM_UPSTREAM_URL || undefined,
+      transport: "auto",
+      reconnectDelayMs: 1000,
+      maxReconnectAttempts: 5,
+    },
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validatePolicy(value: unknown, path: string, issues: string[]): Partial<ToolPolicy> {
+  if (!isPlainObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return {};
+  }
+
+  const policy: Partial<ToolPolicy> = {};
+  for (const [key, field] of Object.entries(value)) {
+    switch (key) {
+      case "mode":
+        if (typeof field !== "string" || !TOOL_MODES.includes(field as ToolMode)) {
+          issues.push(`${path}.mode: expected one of ${TOOL_MODES.join(", ")}, got ${JSON.stringify(field)}`);
+        } else {
+          policy.mode = field as ToolMode;
+        }
+        break;
+      case "minSize":
+      case "maxSize":
+        if (typeof field !== "number" || !Number.isInteger(field) || field < 0) {
+          issues.push(`${path}.${key}: expected a non-negative integer, got ${JSON.stringify(field)}`);
+        } else {
+          policy[key] = field;
+        }
+        break;
+      case "model":
+        if (typeof field !== "string" || field === "") {
+          issues.push(`${path}.model: expected a non-empty string`);
+        } else {
+          policy.model = field;
+        }
+        break;
+      default:
+        issues.push(`${path}.${key}: unknown option`);
+    }
+  }
+  return policy;
+}
+
+function validateAlias(value: unknown, path: string, issues: string[]): ToolAlias | null {
+  if (typeof value === "string" && value !== "") return { tool: value };
+  if (!isPlainObject(value) || typeof value.tool !== "string" || value.tool === "") {
+    issues.push(`${path}: expected a tool name or { "tool": "<name>" }`);
+    return null;
+  }
+  for (const key of Object.keys(value)) {
+    if (key !== "tool" && key !== "description" && key !== "title") {
+      issues.push(`${path}.${key}: unknown option`);
+    } else if (typeof value[key] !== "string") {
+      issues.push(`${path}.${key}: expected a string`);
+    }
+  }
+  return value as unknown as ToolAlias;
+}
+
+function validateEvents(value: unknown, base: EventsPolicy, issues: string[]): EventsPolicy {
+  if (!isPlainObject(value)) {
+    issues.push("events: expected an object");
+    return base;
+  }
+
+  const events: EventsPolicy = { ...base };
+  for (const [key, field] of Object.entries(value)) {
+    if (key !== "collapseLevels" && key !== "noisePatterns") {
+      issues.push(`events.${key}: unknown option`);
+      continue;
+    }
+    if (!Array.isArray(field) || !field.every((item) => typeof item === "string" && item !== "")) {
+      issues.push(`events.${key}: expected an array of non-empty strings`);
+      continue;
+    }
+    if (key === "noisePatterns") {
+      for (const pattern of field as string[]) {
+        try {
+          new RegExp(pattern);
+        } catch {
+          issues.push(`events.noisePatterns: invalid regular expression ${JSON.stringify(pattern)}`);
+        }
+      }
+    }
+    events[key] = field as string[];
+  }
+  return events;
+}
+
+function validateNetwork(value: unknown, base: NetworkPolicy, issues: string[]): NetworkPolicy {
+  if (!isPlainObject(value)) {
+    issues.push("network: expected an object");
+    return base;
+  }
+
+  const network: NetworkPolicy = { ...base };
+  for (const [key, field] of Object.entries(value)) {
+    switch (key) {
+      case "showStaticAssets":
+        if (typeof field !== "boolean") {
+          issues.push("network.showStaticAssets: expected a boolean");
+        } else {
+          network.showStaticAssets = field;
+        }
+        break;
+      case "maxRequests":
+        if (typeof field !== "number" || !Number.isInteger(field) || field < 0) {
+          issues.push(`network.maxRequests: expected a non-negative integer, got ${JSON.stringify(field)}`);
+        } else {
+          network.maxRequests = field;
+        }
+        break;
+      default:
+        issues.push(`network.${key}: unknown option`);
+    }
+  }
+  return network;
+}
+
+function isPrice(value: unknown): value is { input: number; output: number } {
+  return (
+    isPlainObject(value) &&
+    Object.keys(value).length === 2 &&
+    typeof value.input === "number" &&
+    value.input >= 0 &&
+    typeof value.output === "number" &&
+    value.output >= 0
+  );
+}
+
+function validateBudget(value: unknown, base: BudgetPolicy, issues: string[]): BudgetPolicy {
+  if (!isPlainObject(value)) {
+    issues.push("budget: expected an object");
+    return base;
+  }
+
+  const budget: BudgetPolicy = { ...base, pricing: { ...base.pricing } };
+  for (const [key, field] of Object.entries(value)) {
+    switch (key) {
+      case "sessionTokens":
+      case "dailyTokens":
+      case "sessionCostUsd":
+      case "dailyCostUsd":
+        if (typeof field !== "number" || field <= 0) {
+          issues.push(`budget.${key}: expected a positive number, got ${JSON.stringify(field)}`);
+        } else {
+          budget[key] = field;
+        }
+        break;
+      case "downgradeMode":
+        if (typeof field !== "string" || !DOWNGRADE_MODES.includes(field as BudgetPolicy["downgradeMode"])) {
+          issues.push(`budget.downgradeMode: expected one of ${DOWNGRADE_MODES.join(", ")}, got ${JSON.stringify(field)}`);
+        } else {
+          budget.downgradeMode = field as BudgetPolicy["downgradeMode"];
+        }
+        break;
+      case "file":
+        if (typeof field !== "string" || field === "") {
+          issues.push("budget.file: expected a non-empty string");
+        } else {
+          budget.file = field;
+        }
+        break;
+      case "pricing":
+        if (!isPlainObject(field)) {
+          issues.push("budget.pricing: expected an object keyed by model");
+          break;
+        }
+        for (const [model, price] of Object.entries(field)) {
+          if (!isPrice(price)) {
+            issues.push(`budget.pricing.${model}: expected { "input": <usd>, "output": <usd> } per million tokens`);
+          } else {
+            budget.pricing[model] = price;
+          }
+        }
+        break;
+      default:
+        issues.push(`budget.${key}: unknown option`);
+    }
+  }
+  return budget;
+}
+
+function validateFailure(value: unknown, base: FailurePolicy, issues: string[]): FailurePolicy {
+  if (!isPlainObject(value)) {
+    issues.push("failure: expected an object");
+    return base;
+  }
+
+  const failure: FailurePolicy = { ...base };
+  for (const [key, field] of Object.entries(value)) {
+    switch (key) {
+      case "mode":
+        if (typeof field !== "string" || !FAILURE_MODES.includes(field as FailurePolicy["mode"])) {
+          issues.push(`failure.mode: expected one of ${FAILURE_MODES.join(", ")}, got ${JSON.stringify(field)}`);
+        } else {
+          failure.mode = field as FailurePolicy["mode"];
+        }
+        break;
+      case "fallback":
+        if (typeof field !== "string" || !FALLBACKS.includes(field as FailurePolicy["fallback"])) {
+          issues.push(`failure.fallback: expected one of ${FALLBACKS.join(", ")}, got ${JSON.stringify(field)}`);
+        } else {
+          failure.fallback = field as FailurePolicy["fallback"];
+        }
+        break;
+      case "retries":
+      case "backoffMs":
+      case "timeoutMs":
+        if (typeof field !== "number" || !Number.isInteger(field) || field < 0) {
+          issues.push(`failure.${key}: expected a non-negative integer, got ${JSON.stringify(field)}`);
+        } else {
+          failure[key] = field;
+        }
+        break;
+      default:
+        issues.push(`failure.${key}: unknown option`);
+    }
+  }
+  return failure;
+}
+
+function validateImages(value: unknown, base: ImagePolicy, issues: string[]): ImagePolicy {
+  if (!isPlainObject(value)) {
+    issues.push("images: expected an object");
+    return base;
+  }
+
+  const images: ImagePolicy = { ...base };
+  for (const [key, field] of Object.entries(value)) {
+    switch (key) {
+      case "mode":
+        if (typeof field !== "string" || !IMAGE_MODES.includes(field as ImagePolicy["mode"])) {
+          issues.push(`images.mode: expected one of ${IMAGE_MODES.join(", ")}, got ${JSON.stringify(field)}`);
+        } else {
+          images.mode = field as ImagePolicy["mode"];
+        }
+        break;
+      case "maxWidth":
+      case "maxBytes":
+      case "stashBytes":
+        if (typeof field !== "number" || !Number.isInteger(field) || field < 1) {
+          issues.push(`images.${key}: expected a positive integer, got ${JSON.stringify(field)}`);
+        } else {
+          images[key] = field;
+        }
+        break;
+      case "quality":
+        if (typeof field !== "number" || !Number.isInteger(field) || field < 1 || field > 100) {
+          issues.push(`images.quality: expected an integer from 1 to 100, got ${JSON.stringify(field)}`);
+        } else {
+          images.quality = field;
+        }
+        break;
+      case "model":
+        if (typeof field !== "string" || field === "") {
+          issues.push("images.model: expected a non-empty string");
+        } else {
+          images.model = field;
+        }
+        break;
+      default:
+        issues.push(`images.${key}: unknown option`);
+    }
+  }
+  return images;
+}
+
+function validateOverflow(value: unknown, base: OverflowPolicy, issues: string[]): OverflowPolicy {
+  if (!isPlainObject(value)) {
+    issues.push("overflow: expected an object");
+    return base;
+  }
+
+  const overflow: OverflowPolicy = { ...base };
+  for (const [key, field] of Object.entries(value)) {
+    switch (key) {
+      case "maxResponseSize":
+      case "previewSize":
+      case "stashSize":
+        if (typeof field !== "number" || !Number.isInteger(field) || field < 0) {
+          issues.push(`overflow.${key}: expected a non-negative integer, got ${JSON.stringify(field)}`);
+        } else {
+          overflow[key] = field;
+        }
+        break;
+      default:
+        issues.push(`overflow.${key}: unknown option`);
+    }
+  }
+  if (overflow.maxResponseSize > 0 && overflow.previewSize >= overflow.maxResponseSize) {
+    issues.push("overflow.previewSize: must be smaller than maxResponseSize");
+  }
+  return overflow;
+}
+
+function validateHttp(value: unknown, base: HttpPolicy, issues: string[]): HttpPolicy {
+  if (!isPlainObject(value)) {
+    issues.push("http: expected an object");
+    return base;
+  }
+
+  const http: HttpPolicy = { ...base };
+  for (const [key, field] of Object.entries(value)) {
+    switch (key) {
+      case "host":
+        if (typeof field !== "string" || field === "") {
+          issues.push("http.host: expected a non-empty string");
+        } else {
+          http.host = field;
+        }
+        break;
+      case "path":
+        if (typeof field !== "string" || !field.startsWith("/")) {
+          issues.push(`http.path: expected a path starting with "/", got ${JSON.stringify(field)}`);
+        } else {
+          http.path = field;
+        }
+        break;
+      case "port":
+      case "maxSessions":
+      case "idleTimeoutMs":
+        if (typeof field !== "number" || !Number.isInteger(field) || field < 1) {
+          issues.push(`http.${key}: expected a positive integer, got ${JSON.stringify(field)}`);
+        } else {
+          http[key] = field;
+        }
+        break;
+      default:
+        issues.push(`http.${key}: unknown option`);
+    }
+  }
+  return http;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return /^https?:$/.test(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function validateUpstream(value: unknown, base: UpstreamPolicy, issues: string[]): UpstreamPolicy {
+  if (!isPlainObject(value)) {
+    issues.push("upstream: expected an object");
+    return base;
+  }
+
+  const upstream: UpstreamPolicy = { ...base };
+  for (const [key, field] of Object.entries(value)) {
+    switch (key) {
+      case "command":
+        if (typeof field !== "string" || field === "") {
+          issues.push(`upstream.command: expected a non-empty string, got ${JSON.stringify(field)}`);
+        } else {
+          upstream.command = field;
+        }
+        break;
+      case "args":
+        if (!Array.isArray(field) || !field.every((item) => typeof item === "string")) {
+          issues.push("upstream.args: expected an array of strings");
+        } else {
+          upstream.args = field;
+        }
+        break;
+      case "env":
+        if (!isPlainObject(field) || !Object.values(field).every((v) => typeof v === "string")) {
+          issues.push("upstream.env: expected an object of string values");
+        } else {
+          upstream.env = field as Record<string, string>;
+        }
+        break;
+      case "url":
+        if (typeof field !== "string" || !isHttpUrl(field)) {
+          issues.push(`upstream.url: expected an http(s) URL, got ${JSON.stringify(field)}`);
+        } else {
+          upstream.url = field;
+        }
+        break;
+      case "transport":
+        if (typeof field !== "string" || !UPSTREAM_TRANSPORTS.includes(field as UpstreamPolicy["transport"])) {
+          issues.push(
+            `upstream.transport: expected one of ${UPSTREAM_TRANSPORTS.join(", ")}, got ${JSON.stringify(field)}`
+          );
+        } else {
+          upstream.transport = field as UpstreamPolicy["transport"];
+        }
+        break;
+      case "reconnectDelayMs":
+      case "maxReconnectAttempts":
+        if (typeof field !== "number" || !Number.isInteger(field) || field < 0) {
+          issues.push(`upstream.${key}: expected a non-negative integer, got ${JSON.stringify(field)}`);
+        } else {
+          upstream[key] = field;
+        }
+        break;
+      default:
+        issues.push(`upstream.${key}: unknown option`);
+    }
+  }
+  return upstream;
+}
+
+function validateTransformers(value: unknown, issues: string[]): TextTransformer[] {
+  if (!Array.isArray(value)) {
+    issues.push("transformers: expected an array");
+    return [];
+  }
+
+  const transformers: TextTransformer[] = [];
+  value.forEach((transformer, i) => {
+    if (!isPlainObject(transformer)) {
+      issues.push(`transformers[${i}]: expected an object`);
+      return;
+    }
+    const { tools, transform, ...rest } = transformer;
+    let valid = true;
+    if (!(typeof tools === "string" && tools !== "") && !(tools instanceof RegExp)) {
+      issues.push(`transformers[${i}].tools: expected a tool name, pattern or RegExp`);
+      valid = false;
+    }
+    if (typeof transform !== "function") {
+      issues.push(`transformers[${i}].transform: expected a function (use a .js config file)`);
+      valid = false;
+    }
+    for (const key of Object.keys(rest)) {
+      issues.push(`transformers[${i}].${key}: unknown option`);
+    }
+    if (valid) transformers.push(transformer as unknown as TextTransformer);
+  });
+  return transformers;
+}
+
+/**
+ * Validate a raw config object and merge it over `base`.
+ * Collects every problem before throwing, so users can fix them in one go.
+ */
+export function validateConfig(raw: unknown, source: string, base: SlimConfig = defaultConfig()): SlimConfig {
+  const issues: string[] = [];
+  if (!isPlainObject(raw)) {
+    throw new ConfigError(source, ["expected a JSON object at the top level"]);
+  }
+
+  const config: SlimConfig = {
+    ...base,
+    defaults: { ...base.defaults },
+    tools: { ...base.tools },
+    aliases: { ...base.aliases },
+  };
+
+  for (const [key, value] of Object.entries(raw)) {
+    switch (key) {
+      case "model":
+        if (typeof value !== "string" || value === "") {
+          issues.push("model: expected a non-empty string");
+        } else {
+          config.model = value;
+        }
+        break;
+      case "preset":
+        if (typeof value !== "string" || !PRESETS.includes(value as Preset)) {
+          issues.push(`preset: expected one of ${PRESETS.join(", ")}, got ${JSON.stringify(value)}`);
+        } else {
+          config.preset = value as Preset;
+        }
+        break;
+      case "transformers":
+        config.transformers = validateTransformers(value, issues);
+        break;
+      case "refValidation":
+        if (typeof value !== "string" || !REF_VALIDATION_MODES.includes(value as RefValidationMode)) {
+          issues.push(
+            `refValidation: expected one of ${REF_VALIDATION_MODES.join(", ")}, got ${JSON.stringify(value)}`
+          );
+        } else {
+          config.refValidation = value as RefValidationMode;
+        }
+        break;
+      case "defaults":
+        Object.assign(config.defaults, validatePolicy(value, "defaults", issues));
+        break;
+      case "tools":
+        if (!isPlainObject(value)) {
+          issues.push("tools: expected an object keyed by tool name");
+          break;
+        }
+        for (const [toolName, policy] of Object.entries(value)) {
+          config.tools[toolName] = {
+            ...config.tools[toolName],
+            ...validatePolicy(policy, `tools.${toolName}`, issues),
+          };
+        }
+        break;
+      case "aliases":
+        if (!isPlainObject(value)) {
+          issues.push("aliases: expected an object keyed by alias name");
+          break;
+        }
+        for (const [aliasName, alias] of Object.entries(value)) {
+          const validated = validateAlias(alias, `aliases.${aliasName}`, issues);
+          if (validated) config.aliases[aliasName] = validated;
+        }
+        break;
+      case "events":
+        config.events = validateEvents(value, config.events, issues);
+        break;
+      case "network":
+        config.network = validateNetwork(value, config.network, issues);
+        break;
+      case "budget":
+        config.budget = validateBudget(value, config.budget, issues);
+        break;
+      case "failure":
+        config.failure = validateFailure(value, config.failure, issues);
+        break;
+      case "images":
+        config.images = validateImages(value, config.images, issues);
+        break;
+      case "overflow":
+        config.overflow = validateOverflow(value, config.overflow, issues);
+        break;
+      case "http":
+        config.http = validateHttp(value, config.http, issues);
+        break;
+      case "upstream":
+        config.upstream = validateUpstream(value, config.upstream, issues);
+        break;
+      default:
+        issues.push(`${key}: unknown option`);
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigError(source, issues);
+  }
+  return config;
+}
+
+/**
+ * Find the config file: the --slim-config=<path> flag, then PLAYWRIGHT_SLIM_CONFIG,
+ * then playwright-slim.config.json / .js in the working directory.
+ */
+export function findConfigFile(argv: string[], env: NodeJS.ProcessEnv, cwd: string): string | null {
+  const flag = argv.find((arg) => arg.startsWith("--slim-config="));
+  const explicit = flag ? flag.slice("--slim-config=".length) : env.PLAYWRIGHT_SLIM_CONFIG;
+  if (explicit) {
+    const path = resolve(cwd, explicit);
+    if (!existsSync(path)) {
+      throw new ConfigError(path, ["file not found"]);
+    }
+    return path;
+  }
+
+  for (const name of CONFIG_FILE_NAMES) {
+    const path = resolve(cwd, name);
+    if (existsSync(path)) return path;
+  }
+  return null;
+}
+
+/**
+ * Load and validate the config file, falling back to the built-in defaults.
+ */
+export async function loadConfig(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  cwd: string = process.cwd()
+): Promise<{ config: SlimConfig; path: string | null }> {
+  const path = findConfigFile(argv, env, cwd);
+  if (!path) return { config: defaultConfig(env), path: null };
+
+  let raw: unknown;
+  try {
+    if (path.endsWith(".js") || path.endsWith(".mjs")) {
+      raw = (await import(pathToFileURL(path).href)).default;
+    } else {
+      raw = JSON.parse(readFileSync(path, "utf8"));
+    }
+  } catch (err) {
+    throw new ConfigError(path, [`could not be read: ${err instanceof Error ? err.message : String(err)}`]);
+  }
+
+  return { config: validateConfig(raw, path, defaultConfig(env)), path };
+}
+
+/**
+ * The effective policy for a tool: its overrides merged over the defaults.
+ */
+export function resolveToolPolicy(config: SlimConfig, toolName: string): ToolPolicy {
+  return { ...config.defaults, ...config.tools[toolName] };
+}
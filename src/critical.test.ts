@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { appendMissingCriticalNodes, extractCriticalNodes } from "./critical.js";
+
+const SNAPSHOT = `- generic [ref=e1]:
+  - alert [ref=e2]
+  - form [ref=e3]:
+    - textbox "Email" [ref=e4] [active]: bob@
+    - generic [ref=e5]: Please enter a valid email address
+    - checkbox "Remember me" [checked] [ref=e6]
+    - button "More options" [expanded] [ref=e7]
+  - dialog "Confirm delete" [ref=e10]:
+    - generic [ref=e11]:
+      - paragraph [ref=e12]: This cannot be undone.
+    - button "Cancel" [ref=e13]
+    - button "Delete" [ref=e14]
+  - alert [ref=e20]: Session expires in 5 minutes
+  - paragraph [ref=e30]: Error handling is covered in chapter 3`;
+
+describe("extractCriticalNodes", () => {
+  it("finds dialogs, alerts, states and validation messages", () => {
+    const nodes = extractCriticalNodes(SNAPSHOT);
+    expect(nodes.map((n) => [n.reason, n.ref])).toEqual([
+      ["state", "e4"],
+      ["validation", "e5"],
+      ["state", "e6"],
+      ["state", "e7"],
+      ["dialog", "e10"],
+      ["alert", "e20"],
+    ]);
+  });
+
+  it("renders dialog contents without empty wrappers", () => {
+    const dialog = extractCriticalNodes(SNAPSHOT).find((n) => n.reason === "dialog")!;
+    expect(dialog.lines).toEqual([
+      '- dialog "Confirm delete" [ref=e10]',
+      "  - paragraph [ref=e12]: This cannot be undone.",
+      '  - button "Cancel" [ref=e13]',
+      '  - button "Delete" [ref=e14]',
+    ]);
+  });
+});
+
+describe("appendMissingCriticalNodes", () => {
+  it("appends only what the summary omits", () => {
+    const summary = 'Login form: Email [ref=e4], Remember me [ref=e6], More options [ref=e7]';
+    const result = appendMissingCriticalNodes(summary, SNAPSHOT);
+
+    expect(result.added.map((n) => n.ref)).toEqual(["e5", "e10", "e20"]);
+    expect(result.text).toContain(`${summary}\n\nAlso on the page:\n- generic [ref=e5]: Please enter`);
+    expect(result.text).toContain('- dialog "Confirm delete" [ref=e10]');
+    expect(result.text).toContain("- alert [ref=e20]: Session expires in 5 minutes");
+  });
+
+  it("leaves complete summaries unchanged", () => {
+    const summary = "e4 e5 e6 e7 e10 e20";
+    expect(appendMissingCriticalNodes(summary, SNAPSHOT)).toEqual({ text: summary, added: [] });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Critical node extraction - page state an agent must always see, no matter what
+ * the summarizer decided to leave out: open dialogs, alerts and error text, the
+ * focused element, checked/expanded states and validation messages next to inputs.
+ */
+
+import { formatNodeLine, parseSnapshotYaml, SnapshotNode } from "./ast.js";
+
+const DIALOG_ROLES = new Set(["dialog", "alertdialog"]);
+const FORM_CONTROL_ROLES = new Set([
+  "checkbox",
+  "combobox",
+  "listbox",
+  "radio",
+  "searchbox",
+  "spinbutton",
+  "textbox",
+]);
+
+// [active] marks the focused element in Playwright snapshots
+const STATE_ATTRIBUTES = ["active", "checked", "expanded"];
+const VALIDATION_PATTERN =
+  /\b(error|invalid|required|must be|please (enter|select|provide)|is not valid|too (short|long))\b/i;
+
+// Max lines shown for the contents of one dialog or alert
+const MAX_SUBTREE_LINES = 15;
+
+/**
+ * A node's line without the trailing colon.
+ */
+function ownLine(node: SnapshotNode): string {
+  return formatNodeLine({ ...node, props: {}, children: [] });
+}
+
+function hasText(node: SnapshotNode): boolean {
+  return Boolean(node.name) || Boolean(node.text?.trim());
+}
+
+function subtreeHasText(node: SnapshotNode): boolean {
+  return hasText(node) || node.children.some(subtreeHasText);
+}
+
+/**
+ * Render a node and the meaningful part of its subtree (named or text-bearing nodes),
+ * skipping empty wrappers.
+ */
+function renderSubtree(node: SnapshotNode, depth: number, lines: string[]): string[] {
+  if (lines.length >= MAX_SUBTREE_LINES) return lines;
+
+  const keep = depth === 0 || hasText(node) || (node.ref !== undefined && node.role !== "generic");
+  if (keep) lines.push(`${"  ".repeat(depth)}- ${ownLine(node)}`);
+  for (const child of node.children) {
+    renderSubtree(child, keep ? depth + 1 : depth, lines);
+  }
+  return lines;
+}
+
+export interface CriticalNode {
+  reason: "dialog" | "alert" | "state" | "validation";
+  ref: string | null;
+  /** Text that identifies the node in a summary when it has no ref */
+  text: string;
+  lines: string[];
+}
+
+function collect(nodes: SnapshotNode[], found: CriticalNode[]): void {
+  const hasFormControl = nodes.some((n) => FORM_CONTROL_ROLES.has(n.role));
+
+  for (const node of nodes) {
+    const ref = node.ref ?? null;
+    const content = ownLine(node);
+    if (DIALOG_ROLES.has(node.role) || node.role === "alert") {
+      // Empty alerts (e.g. route announcers) carry nothing worth keeping
+      if (!subtreeHasText(node)) continue;
+      found.push({
+        reason: node.role === "alert" ? "alert" : "dialog",
+        ref,
+        text: content,
+        lines: renderSubtree(node, 0, []),
+      });
+      // Everything inside is already shown with the dialog
+      continue;
+    }
+
+    if (STATE_ATTRIBUTES.some((attribute) => attribute in node.attributes)) {
+      found.push({ reason: "state", ref, text: content, lines: [`- ${content}`] });
+    } else if (hasFormControl && !FORM_CONTROL_ROLES.has(node.role) && VALIDATION_PATTERN.test(content)) {
+      found.push({ reason: "validation", ref, text: content, lines: [`- ${content}`] });
+    }
+
+    collect(node.children, found);
+  }
+}
+
+/**
+ * Extract the critical nodes of a snapshot, in document order.
+ */
+export function extractCriticalNodes(snapshotYaml: string): CriticalNode[] {
+  const found: CriticalNode[] = [];
+  collect(parseSnapshotYaml(snapshotYaml), found);
+  return found;
+}
+
+function mentions(summary: string, node: CriticalNode): boolean {
+  if (node.ref) {
+    return new RegExp(`\\b${node.ref.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`).test(summary);
+  }
+  // Refless nodes (e.g. error text) count as present if their text is
+  const text = node.text.match(/: (.+)$/)?.[1] ?? node.text.match(/"([^"]+)"/)?.[1] ?? node.text;
+  return summary.includes(text);
+}
+
+/**
+ * Append the critical nodes that `summary` does not mention.
+ */
+export function appendMissingCriticalNodes(
+  summary: string,
+  snapshotYaml: string
+): { text: string; added: CriticalNode[] } {
+  const missing = extractCriticalNodes(snapshotYaml).filter((node) => !mentions(summary, node));
+  if (missing.length === 0) return { text: summary, added: [] };
+
+  const lines = missing.flatMap((node) => node.lines);
+  return {
+    text: `${summary}\n\nAlso on the page:\n${lines.join("\n")}`,
+    added: missing,
+  };
+}
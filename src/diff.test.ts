@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { diffSnapshots, formatSnapshotDiff, isEmptyDiff } from "./diff.js";
+
+const BEFORE = `- main [ref=e1]:
+  - textbox "Email" [ref=e2]
+  - checkbox "Remember me" [ref=e3]
+  - button "Sign in" [ref=e4] [disabled]
+  - text: Welcome`;
+
+describe("diffSnapshots", () => {
+  it("reports no changes for identical snapshots", () => {
+    const diff = diffSnapshots(BEFORE, BEFORE);
+    expect(isEmptyDiff(diff)).toBe(true);
+    expect(formatSnapshotDiff(diff)).toBe("No changes since the last snapshot.");
+  });
+
+  it("matches nodes by ref and reports changed attributes", () => {
+    const after = BEFORE.replace('"Sign in" [ref=e4] [disabled]', '"Sign in" [ref=e4]').replace(
+      '"Email" [ref=e2]',
+      '"Email" [ref=e2]: user@example.com'
+    );
+    const diff = diffSnapshots(BEFORE, after);
+    expect(diff.changed.map((e) => e.content)).toEqual([
+      'textbox "Email" [ref=e2]: user@example.com',
+      'button "Sign in" [ref=e4]',
+    ]);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+  });
+
+  it("ignores a trailing colon when children change", () => {
+    const after = BEFORE.replace('"Remember me" [ref=e3]', '"Remember me" [ref=e3]:\n    - text: hint');
+    const diff = diffSnapshots(BEFORE, after);
+    expect(diff.changed).toEqual([]);
+    expect(diff.added.map((e) => e.content)).toEqual(["text: hint"]);
+  });
+
+  it("keeps the structure of added subtrees and lists removed nodes", () => {
+    const after = `${BEFORE.replace("  - text: Welcome", "")}
+- dialog "Error" [ref=e10]:
+  - text: Invalid password
+  - button "OK" [ref=e11]`;
+
+    const formatted = formatSnapshotDiff(diffSnapshots(BEFORE, after));
+    expect(formatted).toBe(`Added:
+- dialog "Error" [ref=e10]
+  - text: Invalid password
+  - button "OK" [ref=e11]
+Removed:
+- text: Welcome`);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Snapshot diffing - compares two accessibility snapshots of the same page and
+ * reports which nodes changed, appeared or disappeared.
+ *
+ * Nodes with a [ref=...] are matched by ref. Nodes without one are matched by
+ * their content under the nearest ancestor ref, so they can only be added or removed.
+ */
+
+import { formatNodeLine, parseSnapshotYaml, SnapshotNode, walkSnapshot } from "./ast.js";
+
+interface DiffEntry {
+  key: string;
+  content: string;
+  depth: number;
+  parentKey: string | null;
+}
+
+export interface SnapshotDiff {
+  changed: DiffEntry[];
+  added: DiffEntry[];
+  removed: DiffEntry[];
+}
+
+/**
+ * A node's line without the trailing colon, so adding or removing children
+ * does not count as a change of the node itself.
+ */
+function ownLine(node: SnapshotNode): string {
+  return formatNodeLine({ ...node, props: {}, children: [] });
+}
+
+function flatten(yaml: string): Map<string, DiffEntry> {
+  const entries = new Map<string, DiffEntry>();
+  const keys = new Map<SnapshotNode, string>();
+
+  walkSnapshot(parseSnapshotYaml(yaml), (node, ancestors) => {
+    const content = ownLine(node);
+    const parent = ancestors.length > 0 ? ancestors[ancestors.length - 1] : null;
+    let key: string;
+    if (node.ref) {
+      key = `ref:${node.ref}`;
+    } else {
+      const anchor = [...ancestors].reverse().find((a) => a.ref)?.ref ?? "";
+      key = `${anchor}>${content}`;
+      // Identical refless siblings (e.g. two "- separator") need distinct keys
+      let n = 1;
+      while (entries.has(`${key}#${n}`)) n++;
+      key = `${key}#${n}`;
+    }
+
+    keys.set(node, key);
+    entries.set(key, { key, content, depth: ancestors.length, parentKey: parent ? keys.get(parent)! : null });
+  });
+
+  return entries;
+}
+
+/**
+ * Compute the node-level difference between two snapshot YAMLs.
+ */
+export function diffSnapshots(previousYaml: string, currentYaml: string): SnapshotDiff {
+  const previous = flatten(previousYaml);
+  const current = flatten(currentYaml);
+  const diff: SnapshotDiff = { changed: [], added: [], removed: [] };
+
+  for (const [key, entry] of current) {
+    const before = previous.get(key);
+    if (!before) {
+      diff.added.push(entry);
+    } else if (before.content !== entry.content) {
+      diff.changed.push(entry);
+    }
+  }
+  for (const [key, entry] of previous) {
+    if (!current.has(key)) diff.removed.push(entry);
+  }
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: SnapshotDiff): boolean {
+  return diff.changed.length === 0 && diff.added.length === 0 && diff.removed.length === 0;
+}
+
+/**
+ * Render entries as YAML-like lines. Entries whose parent is also listed are
+ * indented under it, so added subtrees (e.g. a dialog) keep their structure.
+ */
+function formatEntries(entries: DiffEntry[]): string[] {
+  const indents = new Map<string, number>();
+  return entries.map((entry) => {
+    const parentIndent = entry.parentKey !== null ? indents.get(entry.parentKey) : undefined;
+    const indent = parentIndent !== undefined ? parentIndent + 1 : 0;
+    indents.set(entry.key, indent);
+    return `${"  ".repeat(indent)}- ${entry.content}`;
+  });
+}
+
+/**
+ * Format a diff as the body of a "### Snapshot (changes)" section.
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+  if (isEmptyDiff(diff)) {
+    return "No changes since the last snapshot.";
+  }
+
+  const sections: string[] = [];
+  if (diff.changed.length > 0) {
+    sections.push(["Changed:", ...formatEntries(diff.changed)].join("\n"));
+  }
+  if (diff.added.length > 0) {
+    sections.push(["Added:", ...formatEntries(diff.added)].join("\n"));
+  }
+  if (diff.removed.length > 0) {
+    sections.push(["Removed:", ...formatEntries(diff.removed)].join("\n"));
+  }
+  return sections.join("\n");
+}
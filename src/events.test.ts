@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { compressLogLines, normalizeLogLine, summarizeEvents } from "./events.js";
+import { EventsPolicy } from "./config.js";
+
+const policy: EventsPolicy = { collapseLevels: ["DEBUG", "INFO"], noisePatterns: ["\\[HMR\\]"] };
+
+describe("normalizeLogLine", () => {
+  it("masks timestamps, IDs and durations", () => {
+    expect(normalizeLogLine("- [LOG] 2024-05-01T10:00:00.123Z request 3f2a9c81bd took 120ms")).toBe(
+      "- [LOG] <time> request <id> took <duration>"
+    );
+    expect(normalizeLogLine("- [LOG] session 550e8400-e29b-41d4-a716-446655440000 at 10:00:01")).toBe(
+      "- [LOG] session <id> at <time>"
+    );
+  });
+});
+
+describe("compressLogLines", () => {
+  it("groups interleaved duplicates that differ only in volatile parts", () => {
+    const lines = [
+      "- [WARNING] Slow frame at 12:00:01",
+      "- [LOG] GET /api/items",
+      "- [WARNING] Slow frame at 12:00:02",
+      "- [LOG] GET /api/items",
+      "- [WARNING] Slow frame at 12:00:03",
+    ];
+    expect(compressLogLines(lines, policy)).toEqual([
+      "- [WARNING] Slow frame at 12:00:01",
+      "  [repeated 3 times]",
+      "- [LOG] GET /api/items",
+      "  [repeated 2 times]",
+    ]);
+  });
+
+  it("collapses low severities and hides noise, but keeps errors", () => {
+    const lines = [
+      "- [DEBUG] render",
+      "- [INFO] ready",
+      "- [DEBUG] render again",
+      "- [LOG] [HMR] connected",
+      "- [ERROR] [HMR] update failed",
+    ];
+    expect(compressLogLines(lines, policy)).toEqual([
+      "- [ERROR] [HMR] update failed",
+      "- [collapsed 2 DEBUG, 1 INFO messages]",
+      "- [hidden 1 messages matching noise patterns]",
+    ]);
+  });
+
+  it("keeps stack trace lines with their entry", () => {
+    const lines = ["- [ERROR] boom", "    at foo (app.js:1)", "- [ERROR] boom", "    at foo (app.js:1)"];
+    expect(compressLogLines(lines, policy)).toEqual(["- [ERROR] boom", "    at foo (app.js:1)", "  [repeated 2 times]"]);
+  });
+
+  it("returns the input when nothing is saved", () => {
+    const lines = ["- [LOG] one", "- [ERROR] two"];
+    expect(compressLogLines(lines, policy)).toBe(lines);
+  });
+});
+
+describe("summarizeEvents", () => {
+  it("compresses console message sections too", () => {
+    const input = `### Result
+Done
+### New console messages
+- [LOG] tick 1001
+- [LOG] tick 1002
+- [LOG] tick 1003
+### Events
+- [LOG] same
+- [LOG] same
+- [LOG] same`;
+    expect(summarizeEvents(input, policy)).toBe(`### Result
+Done
+### New console messages
+- [LOG] tick 1001
+  [repeated 3 times]
+### Events
+- [LOG] same
+  [repeated 3 times]`);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Compression of the Events and console message sections.
+ *
+ * Chatty pages log the same few messages over and over, often interleaved and
+ * with a fresh timestamp or ID each time. Lines are grouped by their normalized
+ * text wherever they occur, low-severity levels are collapsed into a count and
+ * known noise (dev-server, devtools banners) is hidden. Errors are always kept.
+ */
+
+import { defaultConfig, EventsPolicy } from "./config.js";
+import { log } from "./logger.js";
+
+// Pattern to find the Events section
+export const EVENTS_PATTERN = /### Events\n([\s\S]*?)(?=\n###|$)/;
+
+// Sections made of log lines, compressed the same way as Events
+const LOG_SECTION_PATTERN = /### (Events|New console messages|Console messages)\n([\s\S]*?)(?=\n###|$)/g;
+
+const ENTRY_PATTERN = /^- \[([^\]]+)\]/;
+
+// Volatile parts replaced before comparing lines, most specific first
+const VOLATILE_PATTERNS: [RegExp, string][] = [
+  [/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?/g, "<time>"],
+  [/\b\d{1,2}:\d{2}:\d{2}(\.\d+)?\b/g, "<time>"],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, "<id>"],
+  [/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, "<id>"],
+  [/\b\d+(\.\d+)?(ms|s)\b/g, "<duration>"],
+  [/\d{4,}/g, "<n>"],
+];
+
+interface LogEntry {
+  level: string;
+  /** The "- [LEVEL] ..." line plus any continuation lines (e.g. stack frames) */
+  lines: string[];
+}
+
+/**
+ * The text two entries are compared by, with timestamps, IDs and the like masked.
+ */
+export function normalizeLogLine(line: string): string {
+  return VOLATILE_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), line);
+}
+
+function parseEntries(lines: string[]): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const line of lines) {
+    const match = line.match(ENTRY_PATTERN);
+    if (match || entries.length === 0) {
+      entries.push({ level: match ? match[1].toUpperCase() : "", lines: [line] });
+    } else {
+      entries[entries.length - 1].lines.push(line);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Compress the lines of one log section. Returns the input unchanged if nothing
+ * could be saved.
+ */
+export function compressLogLines(lines: string[], policy: EventsPolicy): string[] {
+  const noise = policy.noisePatterns.map((pattern) => new RegExp(pattern));
+  const collapseLevels = new Set(policy.collapseLevels.map((level) => level.toUpperCase()));
+
+  const groups = new Map<string, { entry: LogEntry; count: number }>();
+  const collapsed = new Map<string, number>();
+  let hidden = 0;
+
+  for (const entry of parseEntries(lines)) {
+    const isError = entry.level === "ERROR";
+    if (!isError && noise.some((pattern) => pattern.test(entry.lines[0]))) {
+      hidden++;
+      continue;
+    }
+    if (!isError && collapseLevels.has(entry.level)) {
+      collapsed.set(entry.level, (collapsed.get(entry.level) ?? 0) + 1);
+      continue;
+    }
+
+    const key = normalizeLogLine(entry.lines.join("\n"));
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(key, { entry, count: 1 });
+    }
+  }
+
+  const outputLines: string[] = [];
+  for (const { entry, count } of groups.values()) {
+    outputLines.push(...entry.lines);
+    if (count > 1) {
+      outputLines.push(`  [repeated ${count} times]`);
+    }
+  }
+  if (collapsed.size > 0) {
+    const counts = [...collapsed].map(([level, count]) => `${count} ${level}`).join(", ");
+    outputLines.push(`- [collapsed ${counts} messages]`);
+  }
+  if (hidden > 0) {
+    outputLines.push(`- [hidden ${hidden} messages matching noise patterns]`);
+  }
+
+  // Only replace if we reduced line count
+  return outputLines.length < lines.length ? outputLines : lines;
+}
+
+/**
+ * Compress the Events and console message sections of a tool response.
+ * Repeats are shown as the first instance followed by "[repeated N times]".
+ */
+export function summarizeEvents(fullText: string, policy: EventsPolicy = defaultConfig().events): string {
+  return fullText.replace(LOG_SECTION_PATTERN, (section: string, heading: string, content: string) => {
+    const lines = content.split("\n");
+    const outputLines = compressLogLines(lines, policy);
+    if (outputLines === lines) return section;
+
+    log("DEBUG", "Summarized log section", {
+      heading,
+      originalLines: lines.length,
+      summarizedLines: outputLines.length,
+    });
+    return `### ${heading}\n${outputLines.join("\n")}`;
+  });
+}
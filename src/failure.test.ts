@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { isTransientError, SummarizeTimeoutError, withRetries } from "./failure.js";
+import { ProviderHttpError, SummarizeRequest, SummarizeResult, SummarizerProvider } from "./providers.js";
+
+function flakyProvider(
+  attempts: ((request: SummarizeRequest) => Promise<SummarizeResult>)[]
+): SummarizerProvider & { calls: number } {
+  const fake = {
+    name: "Fake",
+    model: "fake-1",
+    calls: 0,
+    summarize: (request: SummarizeRequest) => attempts[Math.min(fake.calls++, attempts.length - 1)](request),
+    withModel: () => fake,
+  };
+  return fake;
+}
+
+const fail = () => Promise.reject(new Error("overloaded"));
+const succeed = () => Promise.resolve({ text: "summary" });
+const hang = () => new Promise<SummarizeResult>(() => {});
+
+describe("withRetries", () => {
+  it("retries until a request succeeds", async () => {
+    const fake = flakyProvider([fail, fail, succeed]);
+    const result = await withRetries(fake, { retries: 2, backoffMs: 1, timeoutMs: 0 }).summarize({
+      prompt: "p",
+      maxTokens: 10,
+    });
+    expect(result.text).toBe("summary");
+    expect(fake.calls).toBe(3);
+  });
+
+  it("gives up after the last retry", async () => {
+    const fake = flakyProvider([fail]);
+    await expect(
+      withRetries(fake, { retries: 1, backoffMs: 1, timeoutMs: 0 }).summarize({ prompt: "p", maxTokens: 10 })
+    ).rejects.toThrow("overloaded");
+    expect(fake.calls).toBe(2);
+  });
+
+  it("times out hanging requests", async () => {
+    const fake = flakyProvider([hang, succeed]);
+    const tracked = withRetries(fake, { retries: 0, backoffMs: 1, timeoutMs: 20 });
+    await expect(tracked.summarize({ prompt: "p", maxTokens: 10 })).rejects.toBeInstanceOf(SummarizeTimeoutError);
+
+    const retried = withRetries(flakyProvider([hang, succeed]), { retries: 1, backoffMs: 1, timeoutMs: 20 });
+    await expect(retried.summarize({ prompt: "p", maxTokens: 10 })).resolves.toEqual({ text: "summary" });
+  });
+
+  it("aborts timed-out requests before retrying", async () => {
+    const signals: AbortSignal[] = [];
+    const hangUntilAborted = (request: SummarizeRequest) => {
+      signals.push(request.signal!);
+      return new Promise<SummarizeResult>((_, reject) =>
+        request.signal!.addEventListener("abort", () => reject(new Error("aborted")))
+      );
+    };
+    const fake = flakyProvider([hangUntilAborted, succeed]);
+    await expect(
+      withRetries(fake, { retries: 1, backoffMs: 1, timeoutMs: 20 }).summarize({ prompt: "p", maxTokens: 10 })
+    ).resolves.toEqual({ text: "summary" });
+    expect(signals).toHaveLength(1);
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it("only retries transient errors", async () => {
+    const badRequest = () => Promise.reject(new ProviderHttpError("bad request", 400));
+    const fake = flakyProvider([badRequest, succeed]);
+    await expect(
+      withRetries(fake, { retries: 2, backoffMs: 1, timeoutMs: 0 }).summarize({ prompt: "p", maxTokens: 10 })
+    ).rejects.toThrow("bad request");
+    expect(fake.calls).toBe(1);
+
+    expect(isTransientError(new ProviderHttpError("rate limited", 429))).toBe(true);
+    expect(isTransientError(new ProviderHttpError("unavailable", 503))).toBe(true);
+    expect(isTransientError(new ProviderHttpError("unauthorized", 401))).toBe(false);
+    expect(isTransientError(Object.assign(new Error("aborted"), { name: "AbortError" }))).toBe(false);
+    expect(isTransientError(new TypeError("fetch failed"))).toBe(true);
+  });
+
+  it("passes the client's cancellation on to the request", async () => {
+    const controller = new AbortController();
+    let signal: AbortSignal | undefined;
+    const fake = flakyProvider([
+      (request) => {
+        signal = request.signal;
+        controller.abort();
+        return fail();
+      },
+    ]);
+    await expect(
+      withRetries(fake, { retries: 2, backoffMs: 1, timeoutMs: 1000 }).summarize({
+        prompt: "p",
+        maxTokens: 10,
+        signal: controller.signal,
+      })
+    ).rejects.toThrow("overloaded");
+    expect(signal?.aborted).toBe(true);
+    expect(fake.calls).toBe(1);
+  });
+
+  it("does not retry cancelled requests", async () => {
+    const fake = flakyProvider([fail, succeed]);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      withRetries(fake, { retries: 2, backoffMs: 1, timeoutMs: 0 }).summarize({
+        prompt: "p",
+        maxTokens: 10,
+        signal: controller.signal,
+      })
+    ).rejects.toThrow("overloaded");
+    expect(fake.calls).toBe(1);
+  });
+});
@@ -0,0 +1,100 @@
+import { FailurePolicy } from "./config.js";
+import { log } from "./logger.js";
+import { SummarizeRequest, SummarizeResult, SummarizerProvider } from "./providers.js";
+
+export class SummarizeTimeoutError extends Error {
+  constructor(providerName: string, timeoutMs: number) {
+    super(`${providerName} did not answer within ${timeoutMs}ms`);
+    this.name = "SummarizeTimeoutError";
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run `attempt` with its own signal, aborted when `signal` is or once `timeoutMs`
+ * have passed. A timed-out attempt rejects with onTimeout() and is aborted, so it
+ * stops using the backend instead of running on in the background.
+ */
+async function withTimeout<T>(
+  attempt: (signal: AbortSignal) => Promise<T>,
+  signal: AbortSignal | undefined,
+  timeoutMs: number,
+  onTimeout: () => Error
+): Promise<T> {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(signal?.reason);
+  if (signal?.aborted) forwardAbort();
+  signal?.addEventListener("abort", forwardAbort, { once: true });
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const result = attempt(controller.signal);
+    if (timeoutMs === 0) return await result;
+    return await new Promise<T>((resolve, reject) => {
+      timer = setTimeout(() => {
+        reject(onTimeout());
+        controller.abort();
+      }, timeoutMs);
+      result.then(resolve, reject);
+    });
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", forwardAbort);
+  }
+}
+
+// HTTP statuses worth another attempt: request timeout, conflict, rate limit
+const TRANSIENT_STATUSES = new Set([408, 409, 429]);
+
+/**
+ * Whether a failed request may succeed when retried: timeouts, network errors,
+ * rate limits and server errors. Client errors and aborts fail the same way again.
+ */
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof SummarizeTimeoutError) return true;
+  if (err instanceof Error && (err.name === "AbortError" || err.name === "APIUserAbortError")) return false;
+  const status = (err as { status?: unknown } | null)?.status;
+  if (typeof status === "number") return TRANSIENT_STATUSES.has(status) || status >= 500;
+  return true;
+}
+
+/**
+ * The same provider, with each request limited to `timeoutMs` and transient failures
+ * retried up to `retries` times with exponential backoff.
+ */
+export function withRetries(
+  provider: SummarizerProvider,
+  policy: Pick<FailurePolicy, "retries" | "backoffMs" | "timeoutMs">
+): SummarizerProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    summarize: async (request: SummarizeRequest): Promise<SummarizeResult> => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await withTimeout(
+            (signal) => provider.summarize({ ...request, signal }),
+            request.signal,
+            policy.timeoutMs,
+            () => new SummarizeTimeoutError(provider.name, policy.timeoutMs)
+          );
+        } catch (err) {
+          // A cancelled request stays cancelled
+          if (attempt >= policy.retries || request.signal?.aborted || !isTransientError(err)) throw err;
+          const delay = policy.backoffMs * 2 ** attempt;
+          log("INFO", "Summarization failed, retrying", {
+            provider: provider.name,
+            attempt: attempt + 1,
+            delay,
+            error: String(err),
+          });
+          await sleep(delay);
+        }
+      }
+    },
+    withModel: (model: string) => withRetries(provider.withModel(model), policy),
+  };
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { HttpSession, HttpSessionHooks, resolveHttpPort, SlimHttpServer } from "./http.js";
+import { HttpPolicy } from "./config.js";
+
+/**
+ * Stands in for a proxy session with its own upstream: answers initialize and
+ * tools/list, naming its session in the tool list.
+ */
+function fakeSession(hooks: HttpSessionHooks, index: number, closed: number[]): HttpSession {
+  return {
+    handleClientLine(line) {
+      const message = JSON.parse(line);
+      if (message.method === "initialize") {
+        hooks.send(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: message.id,
+            result: {
+              protocolVersion: message.params.protocolVersion,
+              capabilities: { tools: {} },
+              serverInfo: { name: "fake", version: "1.0.0" },
+            },
+          })
+        );
+      } else if (message.method === "tools/list") {
+        hooks.send(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            id: message.id,
+            result: { tools: [{ name: `session_${index}`, inputSchema: { type: "object" } }] },
+          })
+        );
+      }
+    },
+    close() {
+      closed.push(index);
+    },
+  };
+}
+
+describe("resolveHttpPort", () => {
+  it("reads the flag, then the env var", () => {
+    expect(resolveHttpPort([], {}, 8932)).toBeNull();
+    expect(resolveHttpPort(["--slim-http"], {}, 8932)).toBe(8932);
+    expect(resolveHttpPort(["--slim-http=9000"], { PLAYWRIGHT_SLIM_HTTP_PORT: "9001" }, 8932)).toBe(9000);
+    expect(resolveHttpPort([], { PLAYWRIGHT_SLIM_HTTP_PORT: "9001" }, 8932)).toBe(9001);
+    expect(() => resolveHttpPort(["--slim-http=abc"], {}, 8932)).toThrow(/Invalid HTTP port/);
+  });
+});
+
+describe("SlimHttpServer", () => {
+  let server: SlimHttpServer | null = null;
+  const clients: Client[] = [];
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close().catch(() => {})));
+    await server?.close();
+    server = null;
+  });
+
+  async function startServer(overrides: Partial<HttpPolicy> = {}) {
+    const closed: number[] = [];
+    let created = 0;
+    server = new SlimHttpServer(
+      { host: "127.0.0.1", port: 0, path: "/mcp", maxSessions: 2, idleTimeoutMs: 60_000, ...overrides },
+      (hooks) => fakeSession(hooks, created++, closed)
+    );
+    const port = await server.listen(0);
+    return { url: new URL(`http://127.0.0.1:${port}/mcp`), closed };
+  }
+
+  async function connect(url: URL): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: "test", version: "1.0.0" });
+    const transport = new StreamableHTTPClientTransport(url);
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  }
+
+  it("gives each client its own session", async () => {
+    const { url } = await startServer();
+    const first = await connect(url);
+    const second = await connect(url);
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect((await first.client.listTools()).tools[0].name).toBe("session_0");
+    expect((await second.client.listTools()).tools[0].name).toBe("session_1");
+    expect(server!.sessionCount).toBe(2);
+  });
+
+  it("rejects sessions over the cap and frees the slot on DELETE", async () => {
+    const { url, closed } = await startServer({ maxSessions: 1 });
+    const first = await connect(url);
+    await expect(connect(url)).rejects.toThrow(/Too many sessions/);
+
+    await first.transport.terminateSession();
+    expect(closed).toEqual([0]);
+    expect(server!.sessionCount).toBe(0);
+    await expect(connect(url)).resolves.toBeDefined();
+  });
+
+  it("closes idle sessions", async () => {
+    const { url, closed } = await startServer({ idleTimeoutMs: 50 });
+    await connect(url);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(closed).toEqual([0]);
+    expect(server!.sessionCount).toBe(0);
+  });
+
+  it("requires initialize before a session exists", async () => {
+    const { url } = await startServer();
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it("answers a malformed body with a parse error", async () => {
+    const { url } = await startServer();
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: '{"jsonrpc": "2.0", "id": 1,',
+    });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: { code: -32700 } });
+  });
+
+  it("refuses bodies over the size cap", async () => {
+    const { url } = await startServer();
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: { padding: "x".repeat(5_000_000) } }),
+    });
+    expect(response.status).toBe(413);
+    expect(server!.sessionCount).toBe(0);
+  });
+});
@@ -0,0 +1,258 @@
+/**
+ * Streamable HTTP server mode - one long-running proxy serving several MCP clients.
+ *
+ * Every MCP session (created by an initialize request) gets its own proxy session
+ * with its own upstream Playwright MCP process and browser. Sessions end when the
+ * client sends DELETE, when their upstream exits, or after `idleTimeoutMs` without
+ * requests.
+ */
+
+import { randomUUID } from "crypto";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest, JSONRPCMessage, RequestId } from "@modelcontextprotocol/sdk/types.js";
+import { HttpPolicy } from "./config.js";
+import { log } from "./logger.js";
+
+/**
+ * The transport-independent side of a proxy session, as seen by the HTTP server.
+ */
+export interface HttpSession {
+  /** Handle one JSON-RPC message (as a line of JSON) from the client */
+  handleClientLine(line: string): void;
+  /** Stop the session's upstream */
+  close(): void;
+}
+
+export interface HttpSessionHooks {
+  /** Send one line of JSON to the client, on the stream of `relatedRequestId` if given */
+  send(line: string, relatedRequestId?: RequestId): void;
+  /** End the session, e.g. because its upstream exited */
+  end(): void;
+}
+
+interface SessionEntry {
+  transport: StreamableHTTPServerTransport;
+  session: HttpSession;
+  lastActivity: number;
+}
+
+// How often idle sessions are looked for, at most
+const MAX_IDLE_CHECK_INTERVAL_MS = 60_000;
+
+// Largest request body read before a session exists; an initialize request is far smaller
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// JSON-RPC error code for invalid JSON
+const PARSE_ERROR = -32700;
+
+/**
+ * The port from the --slim-http[=<port>] flag or PLAYWRIGHT_SLIM_HTTP_PORT, or
+ * null to use stdio. A bare --slim-http uses `defaultPort`.
+ */
+export function resolveHttpPort(argv: string[], env: NodeJS.ProcessEnv, defaultPort: number): number | null {
+  const flag = argv.find((arg) => arg === "--slim-http" || arg.startsWith("--slim-http="));
+  const value = flag === "--slim-http" ? String(defaultPort) : (flag?.slice("--slim-http=".length) ?? env.PLAYWRIGHT_SLIM_HTTP_PORT);
+  if (value === undefined || value === "") return null;
+
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port "${value}"`);
+  }
+  return port;
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, code = -32000): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
+
+class BodyTooLargeError extends Error {}
+
+/**
+ * Read and parse a JSON request body. Rejects with a BodyTooLargeError as soon as
+ * the body is over MAX_BODY_BYTES, and with a SyntaxError if it is not JSON.
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      if (size > MAX_BODY_BYTES) return;
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // The rest is read and discarded, so the response still reaches the client
+        chunks.length = 0;
+        reject(new BodyTooLargeError(`Request body too large (max ${MAX_BODY_BYTES} bytes)`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Serves MCP Streamable HTTP at `policy.path`, creating a session per client.
+ */
+export class SlimHttpServer {
+  private sessions = new Map<string, SessionEntry>();
+  private server: Server;
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private policy: HttpPolicy,
+    private createSession: (hooks: HttpSessionHooks) => HttpSession
+  ) {
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((err) => {
+        log("ERROR", "HTTP request failed", { error: String(err) });
+        if (!res.headersSent) sendJsonRpcError(res, 500, "Internal server error");
+      });
+    });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Start listening; resolves with the bound port (useful with port 0).
+   */
+  listen(port: number): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(port, this.policy.host, () => {
+        const address = this.server.address();
+        const boundPort = typeof address === "object" && address ? address.port : port;
+        log("INFO", "HTTP server listening", { host: this.policy.host, port: boundPort, path: this.policy.path });
+
+        const interval = Math.min(this.policy.idleTimeoutMs, MAX_IDLE_CHECK_INTERVAL_MS);
+        this.idleTimer = setInterval(() => this.closeIdleSessions(), interval);
+        this.idleTimer.unref();
+        resolve(boundPort);
+      });
+    });
+  }
+
+  /**
+   * Close every session and stop listening.
+   */
+  async close(): Promise<void> {
+    if (this.idleTimer) clearInterval(this.idleTimer);
+    await Promise.all([...this.sessions.values()].map((entry) => entry.transport.close()));
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private closeIdleSessions(): void {
+    const now = Date.now();
+    for (const [sessionId, entry] of this.sessions) {
+      if (now - entry.lastActivity > this.policy.idleTimeoutMs) {
+        log("INFO", "Closing idle session", { sessionId });
+        void entry.transport.close();
+      }
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== this.policy.path) {
+      sendJsonRpcError(res, 404, `Not found - the MCP endpoint is ${this.policy.path}`);
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const entry = this.sessions.get(sessionId);
+      if (!entry) {
+        sendJsonRpcError(res, 404, "Session not found");
+        return;
+      }
+      entry.lastActivity = Date.now();
+      await entry.transport.handleRequest(req, res);
+      return;
+    }
+
+    // No session yet - only an initialize request may start one
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        if (err instanceof BodyTooLargeError) {
+          sendJsonRpcError(res, 413, err.message);
+          return;
+        }
+        if (err instanceof SyntaxError) {
+          sendJsonRpcError(res, 400, "Parse error - the request body is not valid JSON", PARSE_ERROR);
+          return;
+        }
+        throw err;
+      }
+    }
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Bad request - no session ID; send an initialize request first");
+      return;
+    }
+    if (this.sessions.size >= this.policy.maxSessions) {
+      log("INFO", "Rejecting session, max sessions reached", { maxSessions: this.policy.maxSessions });
+      sendJsonRpcError(res, 503, `Too many sessions (max ${this.policy.maxSessions})`);
+      return;
+    }
+
+    await this.startSession(req, res, body);
+  }
+
+  private async startSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    let entry: SessionEntry | null = null;
+    let closed = false;
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        if (entry) this.sessions.set(sessionId, entry);
+        log("INFO", "Session started", { sessionId, sessions: this.sessions.size });
+      },
+    });
+
+    const session = this.createSession({
+      send: (line, relatedRequestId) => {
+        let message: JSONRPCMessage;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          log("DEBUG", "Dropping non-JSON upstream output", { line });
+          return;
+        }
+        transport.send(message, { relatedRequestId }).catch((err) => {
+          log("ERROR", "Could not send to HTTP client", { sessionId: transport.sessionId, error: String(err) });
+        });
+      },
+      end: () => void transport.close(),
+    });
+    entry = { transport, session, lastActivity: Date.now() };
+
+    transport.onmessage = (message) => {
+      entry!.lastActivity = Date.now();
+      session.handleClientLine(JSON.stringify(message));
+    };
+    transport.onclose = () => {
+      if (closed) return;
+      closed = true;
+      if (transport.sessionId) this.sessions.delete(transport.sessionId);
+      session.close();
+      log("INFO", "Session closed", { sessionId: transport.sessionId, sessions: this.sessions.size });
+    };
+
+    await transport.handleRequest(req, res, body);
+    // Initialization was rejected (e.g. bad protocol version) - nothing will use this session
+    if (!transport.sessionId) await transport.close();
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Worker thread entry for ImageShrinker: shrinks one image per message and posts
+ * back the result or the error.
+ */
+
+import { parentPort } from "worker_threads";
+import { shrinkImage, ShrinkOptions } from "./images.js";
+
+interface ShrinkRequest {
+  id: number;
+  data: string;
+  mimeType: string;
+  options: ShrinkOptions;
+}
+
+parentPort!.on("message", ({ id, data, mimeType, options }: ShrinkRequest) => {
+  try {
+    parentPort!.postMessage({ id, result: shrinkImage(data, mimeType, options) });
+  } catch (err) {
+    parentPort!.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import jpeg from "jpeg-js";
+import pngjs from "pngjs";
+import { ImageShrinker, shrinkImage } from "./images.js";
+
+function pngBase64(width: number, height: number): string {
+  const png = new pngjs.PNG({ width, height });
+  for (let i = 0; i < width * height; i++) {
+    // Noise, so the image does not compress to nothing
+    png.data[i * 4] = (i * 7919) % 256;
+    png.data[i * 4 + 1] = (i * 104729) % 256;
+    png.data[i * 4 + 2] = (i >> 4) % 256;
+    png.data[i * 4 + 3] = 255;
+  }
+  return pngjs.PNG.sync.write(png).toString("base64");
+}
+
+describe("shrinkImage", () => {
+  it("downscales to the max width and re-encodes as JPEG", () => {
+    const shrunk = shrinkImage(pngBase64(800, 400), "image/png", { maxWidth: 200, maxBytes: 1e6, quality: 80 })!;
+
+    expect(shrunk).toMatchObject({ mimeType: "image/jpeg", width: 200, height: 100, originalWidth: 800 });
+    const decoded = jpeg.decode(Buffer.from(shrunk.data, "base64"));
+    expect([decoded.width, decoded.height]).toEqual([200, 100]);
+    expect(shrunk.bytes).toBeLessThan(shrunk.originalBytes);
+  });
+
+  it("keeps the height of tall images in proportion to the width", () => {
+    const shrunk = shrinkImage(pngBase64(400, 1600), "image/png", { maxWidth: 200, maxBytes: 1e6, quality: 80 })!;
+
+    expect(shrunk).toMatchObject({ width: 200, height: 800 });
+  });
+
+  it("lowers quality, then size, until the image fits max bytes", () => {
+    const shrunk = shrinkImage(pngBase64(400, 400), "image/png", { maxWidth: 400, maxBytes: 8000, quality: 90 })!;
+
+    expect(shrunk.bytes).toBeLessThanOrEqual(8000);
+    expect(shrunk.width).toBeLessThan(400);
+  });
+
+  it("keeps flat images as PNG when that is smaller", () => {
+    const png = new pngjs.PNG({ width: 800, height: 400 });
+    png.data.fill(255);
+    const flat = pngjs.PNG.sync.write(png).toString("base64");
+
+    const shrunk = shrinkImage(flat, "image/png", { maxWidth: 200, maxBytes: 1e6, quality: 80 })!;
+
+    expect(shrunk).toMatchObject({ mimeType: "image/png", width: 200, height: 100 });
+  });
+
+  it("leaves small and unsupported images alone", () => {
+    const options = { maxWidth: 200, maxBytes: 1e6, quality: 80 };
+    expect(shrinkImage(pngBase64(100, 400), "image/png", options)).toBeNull();
+    expect(shrinkImage("R0lGODlh", "image/gif", options)).toBeNull();
+    expect(() => shrinkImage("bm90IGEgcG5n", "image/png", options)).toThrow();
+  });
+});
+
+describe("ImageShrinker", () => {
+  it("shrinks images on its worker thread", async () => {
+    const shrinker = new ImageShrinker();
+    try {
+      const options = { maxWidth: 200, maxBytes: 1e6, quality: 80 };
+      const [shrunk, small] = await Promise.all([
+        shrinker.shrink(pngBase64(800, 400), "image/png", options),
+        shrinker.shrink(pngBase64(100, 50), "image/png", options),
+      ]);
+      expect(shrunk).toMatchObject({ width: 200, height: 100, originalWidth: 800, originalHeight: 400 });
+      expect(small).toBeNull();
+    } finally {
+      shrinker.close();
+    }
+  });
+
+  it("leaves images it cannot decode as they are", async () => {
+    const shrinker = new ImageShrinker();
+    try {
+      expect(await shrinker.shrink("bm90IGEgcG5n", "image/png", { maxWidth: 200, maxBytes: 1e6, quality: 80 })).toBeNull();
+    } finally {
+      shrinker.close();
+    }
+  });
+});
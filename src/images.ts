@@ -0,0 +1,244 @@
+/**
+ * Shrinking image content, e.g. browser_take_screenshot results, with pure-JS
+ * codecs: PNG and JPEG are decoded, downscaled with a box filter and re-encoded
+ * until they fit the size limits - as JPEG, or as PNG where that is smaller, which
+ * is common for screenshots of flat UI. This takes a second or more for a large
+ * screenshot, so the proxy does it on a worker thread (image-worker.ts).
+ */
+
+import { Worker } from "worker_threads";
+import jpeg from "jpeg-js";
+import pngjs from "pngjs";
+import { log } from "./logger.js";
+import { startWorker } from "./workers.js";
+
+/**
+ * The locally answered tool that returns an original image kept in the stash.
+ * Injected into tools/list unless images pass through unchanged.
+ */
+export const SLIM_FETCH_IMAGE_TOOL = {
+  name: "slim_fetch_image",
+  description:
+    "Fetch the original, full-resolution version of an image that playwright-slim-mcp " +
+    "downscaled or described, by the handle given next to it",
+  inputSchema: {
+    type: "object",
+    properties: { handle: { type: "string", description: 'The image handle, e.g. "img-1"' } },
+    required: ["handle"],
+  },
+  annotations: { title: "Original image", readOnlyHint: true },
+};
+
+export interface ShrinkOptions {
+  /** Max width in pixels; the height follows, so full-page screenshots stay legible */
+  maxWidth: number;
+  /** Max size of the encoded image in bytes */
+  maxBytes: number;
+  /** JPEG quality to start from, 1-100 */
+  quality: number;
+}
+
+export interface ShrunkImage {
+  /** Base64 image data */
+  data: string;
+  mimeType: "image/jpeg" | "image/png";
+  width: number;
+  height: number;
+  bytes: number;
+  originalWidth: number;
+  originalHeight: number;
+  originalBytes: number;
+}
+
+interface RawImage {
+  width: number;
+  height: number;
+  /** RGBA, 4 bytes per pixel */
+  data: Uint8Array;
+}
+
+// Quality is lowered in these steps down to the minimum before the size is reduced further
+const QUALITY_STEP = 20;
+const MIN_QUALITY = 40;
+const SCALE_STEP = 0.75;
+const MAX_ENCODE_ATTEMPTS = 8;
+
+const SHRINKABLE_TYPES = new Set(["image/png", "image/jpeg", "image/jpg"]);
+
+function decodeImage(bytes: Buffer, mimeType: string): RawImage {
+  return mimeType === "image/png"
+    ? pngjs.PNG.sync.read(bytes)
+    : jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+}
+
+/**
+ * Downscale to width x height by averaging each block of source pixels, with
+ * transparent pixels blended onto white since JPEG has no alpha.
+ */
+function resizeImage(image: RawImage, width: number, height: number): RawImage {
+  const data = new Uint8Array(width * height * 4);
+  const xRatio = image.width / width;
+  const yRatio = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * yRatio);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * yRatio));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * xRatio);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * xRatio));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        for (let sx = x0; sx < x1; sx++) {
+          const i = (sy * image.width + sx) * 4;
+          const alpha = image.data[i + 3] / 255;
+          r += image.data[i] * alpha + 255 * (1 - alpha);
+          g += image.data[i + 1] * alpha + 255 * (1 - alpha);
+          b += image.data[i + 2] * alpha + 255 * (1 - alpha);
+        }
+      }
+      const count = (y1 - y0) * (x1 - x0);
+      const o = (y * width + x) * 4;
+      data[o] = Math.round(r / count);
+      data[o + 1] = Math.round(g / count);
+      data[o + 2] = Math.round(b / count);
+      data[o + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+function encodePng(image: RawImage): Buffer {
+  const png = new pngjs.PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data);
+  return pngjs.PNG.sync.write(png);
+}
+
+/**
+ * Shrink a base64 PNG or JPEG to fit `options`, lowering the JPEG quality first and
+ * then the dimensions. PNGs are also tried as PNG, whichever is smaller wins.
+ * Returns null if the image already fits, would only get larger, or is in another
+ * format; throws if it cannot be decoded. Blocks the thread it runs on.
+ */
+export function shrinkImage(base64: string, mimeType: string, options: ShrinkOptions): ShrunkImage | null {
+  if (!SHRINKABLE_TYPES.has(mimeType)) return null;
+  const bytes = Buffer.from(base64, "base64");
+  const original = decodeImage(bytes, mimeType);
+  if (original.width <= options.maxWidth && bytes.length <= options.maxBytes) return null;
+
+  let scale = Math.min(1, options.maxWidth / original.width);
+  let quality = options.quality;
+  let resized: RawImage | null = null;
+  let png: Buffer | null = null;
+  let encoded: { bytes: Buffer; mimeType: ShrunkImage["mimeType"] } | null = null;
+
+  for (let attempt = 0; attempt < MAX_ENCODE_ATTEMPTS; attempt++) {
+    const width = Math.max(1, Math.round(original.width * scale));
+    const height = Math.max(1, Math.round(original.height * scale));
+    if (resized?.width !== width || resized.height !== height) {
+      resized = resizeImage(original, width, height);
+      png = mimeType === "image/png" ? encodePng(resized) : null;
+    }
+    const jpegBytes = jpeg.encode(resized, quality).data;
+    encoded =
+      png && png.length <= jpegBytes.length
+        ? { bytes: png, mimeType: "image/png" }
+        : { bytes: jpegBytes, mimeType: "image/jpeg" };
+    if (encoded.bytes.length <= options.maxBytes) break;
+
+    if (quality > MIN_QUALITY) {
+      quality = Math.max(MIN_QUALITY, quality - QUALITY_STEP);
+    } else {
+      scale *= SCALE_STEP;
+    }
+  }
+
+  // Only smaller dimensions are worth a larger file
+  if (encoded!.bytes.length >= bytes.length && original.width <= options.maxWidth) return null;
+
+  return {
+    data: encoded!.bytes.toString("base64"),
+    mimeType: encoded!.mimeType,
+    width: resized!.width,
+    height: resized!.height,
+    bytes: encoded!.bytes.length,
+    originalWidth: original.width,
+    originalHeight: original.height,
+    originalBytes: bytes.length,
+  };
+}
+
+interface ShrinkResponse {
+  id: number;
+  result?: ShrunkImage | null;
+  error?: string;
+}
+
+/**
+ * Runs shrinkImage on a worker thread, started on first use and shared by all
+ * sessions, so one large screenshot does not stall the others.
+ */
+export class ImageShrinker {
+  private worker: Worker | null = null;
+  private pending = new Map<number, { resolve: (result: ShrunkImage | null) => void; reject: (err: Error) => void }>();
+  private nextId = 1;
+
+  /**
+   * The shrunk image, or null if it is left as it is - including when it cannot be
+   * decoded or the worker fails.
+   */
+  async shrink(base64: string, mimeType: string, options: ShrinkOptions): Promise<ShrunkImage | null> {
+    if (!SHRINKABLE_TYPES.has(mimeType)) {
+      log("DEBUG", "Leaving image in unsupported format", { mimeType });
+      return null;
+    }
+    try {
+      return await new Promise<ShrunkImage | null>((resolve, reject) => {
+        const id = this.nextId++;
+        this.pending.set(id, { resolve, reject });
+        this.getWorker().postMessage({ id, data: base64, mimeType, options });
+      });
+    } catch (err) {
+      log("ERROR", "Could not shrink image", { mimeType, error: String(err) });
+      return null;
+    }
+  }
+
+  close(): void {
+    void this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+    const worker = startWorker(new URL("./image-worker.js", import.meta.url));
+    // Idle, it must not keep the process alive
+    worker.unref();
+    worker.on("message", ({ id, result, error }: ShrinkResponse) => {
+      const request = this.pending.get(id);
+      this.pending.delete(id);
+      if (error !== undefined) request?.reject(new Error(error));
+      else request?.resolve(result ?? null);
+    });
+    const fail = (err: Error) => {
+      if (this.worker === worker) this.worker = null;
+      for (const request of this.pending.values()) request.reject(err);
+      this.pending.clear();
+    };
+    worker.on("error", fail);
+    worker.on("exit", (code) => fail(new Error(`Image worker exited with code ${code}`)));
+    this.worker = worker;
+    return worker;
+  }
+}
+
+/**
+ * Prompt for replacing an image with a text description.
+ */
+export function buildImageDescriptionPrompt(toolName: string): string {
+  return `This image was returned by the ${toolName} tool to an agent automating a browser. Describe it for the agent, which cannot see it (max ~15 lines).
+Include the page layout, all visible text that matters (headings, labels, messages, errors, values in forms and tables), and the state of controls (selected, disabled, checked).
+Point out anything that looks broken: overlapping or cut-off elements, missing images, unreadable contrast, error banners.
+Omit: decorative details, exact colors and fonts unless they matter.`;
+}
@@ -1,5 +1,45 @@
-import { describe, it, expect } from "vitest";
-import { parsePlaywrightResponse, summarizeEvents } from "./index.js";
+import { describe, it, expect, vi } from "vitest";
+import {
+  resolveSummarizeMode,
+  diffSnapshotText,
+  shouldUseSampling,
+  truncateSnapshotText,
+  budgetDowngradeText,
+  fallbackSnapshotText,
+  summarizeSnapshot,
+  withInjectedArgument,
+  reducedSnapshotText,
+  processToolResult as processResult,
+} from "./index.js";
+import { BudgetTracker } from "./budget.js";
+import { summarizeEvents } from "./events.js";
+import { SummarizerProvider } from "./providers.js";
+import { parsePlaywrightResponse } from "./response.js";
+import { defaultConfig, SlimConfig } from "./config.js";
+import { Stash } from "./stash.js";
+import { TransformerRegistry } from "./transformers.js";
+
+/**
+ * Per-proxy state for processToolResult, with the default config and a mock provider.
+ */
+function toolResultContext(
+  overrides: { detail?: "none" | "refs-only" | "summary" | "full"; config?: SlimConfig; budget?: BudgetTracker } = {}
+) {
+  const provider = { name: "mock", model: "mock", summarize: vi.fn(), withModel: () => provider };
+  return {
+    config: defaultConfig({}),
+    history: new Map<string, string>(),
+    provider,
+    transformers: new TransformerRegistry(),
+    imageStash: new Stash<never>("img", 1000),
+    resultStash: new Stash<string>("result", 1_000_000),
+    ...overrides,
+  };
+}
+
+async function processToolResult(toolName: string, result: unknown, context: ReturnType<typeof toolResultContext>) {
+  return (await processResult(toolName, result, context)) as { content: { text: string }[] };
+}
 
 // Fixture: Old format (no Console line)
 const OLD_FORMAT_FIXTURE = `### Ran Playwright code
@@ -172,3 +212,363 @@ describe("summarizeEvents", () => {
     expect(result).toBe(input);
   });
 });
+
+describe("resolveSummarizeMode", () => {
+  it("defaults to llm", () => {
+    expect(resolveSummarizeMode([], undefined)).toBe("llm");
+  });
+
+  it("reads the env var", () => {
+    expect(resolveSummarizeMode([], "prune")).toBe("prune");
+  });
+
+  it("prefers the --slim-mode flag over the env var", () => {
+    expect(resolveSummarizeMode(["--headless", "--slim-mode=prune"], "llm")).toBe("prune");
+  });
+
+  it("rejects unknown modes", () => {
+    expect(() => resolveSummarizeMode([], "fast")).toThrow(/Invalid summarize mode/);
+  });
+});
+
+describe("diffSnapshotText", () => {
+  const rows = Array.from({ length: 20 }, (_, i) => `  - row "Row ${i}" [ref=r${i}]`).join("\n");
+  const page = (yaml: string, url = "http://test.com/form") => `### Page
+- Page URL: ${url}
+- Page Title: Form
+### Snapshot
+\`\`\`yaml
+${yaml}
+\`\`\``;
+  const before = `- table [ref=e1]:\n${rows}\n- button "Save" [ref=e2]`;
+
+  it("records a baseline and returns null for the first snapshot", () => {
+    const history = new Map<string, string>();
+    expect(diffSnapshotText(page(before), history, true)).toBeNull();
+    expect(history.get("http://test.com/form")).toContain("[ref=e2]");
+  });
+
+  it("returns changes for the same page", () => {
+    const history = new Map<string, string>();
+    diffSnapshotText(page(before), history, true);
+    const after = before.replace('"Save" [ref=e2]', '"Save" [disabled] [ref=e2]');
+    const result = diffSnapshotText(page(after), history, true);
+    expect(result).toContain("### Snapshot (changes since last action)");
+    expect(result).toContain('Changed:\n- button "Save" [disabled] [ref=e2]');
+    expect(result).not.toContain("```yaml");
+  });
+
+  it("falls back to a full summary on navigation or when not allowed", () => {
+    const history = new Map<string, string>();
+    diffSnapshotText(page(before), history, true);
+    expect(diffSnapshotText(page(before, "http://test.com/other"), history, true)).toBeNull();
+    expect(diffSnapshotText(page(before), history, false)).toBeNull();
+  });
+});
+
+describe("shouldUseSampling", () => {
+  it("requires client support", () => {
+    expect(shouldUseSampling({ PLAYWRIGHT_SLIM_PROVIDER: "sampling" }, false)).toBe(false);
+  });
+
+  it("is used when explicitly configured", () => {
+    expect(shouldUseSampling({ PLAYWRIGHT_SLIM_PROVIDER: "sampling", ANTHROPIC_API_KEY: "k" }, true)).toBe(true);
+  });
+
+  it("is used by default only without an Anthropic key", () => {
+    expect(shouldUseSampling({}, true)).toBe(true);
+    expect(shouldUseSampling({ ANTHROPIC_API_KEY: "k" }, true)).toBe(false);
+    expect(shouldUseSampling({ PLAYWRIGHT_SLIM_PROVIDER: "ollama" }, true)).toBe(false);
+  });
+});
+
+describe("truncateSnapshotText", () => {
+  const text = `### Page
+- Page URL: http://test.com
+- Page Title: Test
+### Snapshot
+\`\`\`yaml
+- button "One" [ref=e1]
+- button "Two" [ref=e2]
+\`\`\`
+### Events
+- some event`;
+
+  it("cuts the snapshot YAML and keeps other sections", () => {
+    const result = truncateSnapshotText(text, 24);
+    expect(result).toContain("### Snapshot (truncated)");
+    expect(result).toContain('- button "One" [ref=e1]\n... [truncated');
+    expect(result).not.toContain("[ref=e2]");
+    expect(result).toContain("### Events\n- some event");
+  });
+
+  it("leaves snapshots within the limit unchanged", () => {
+    expect(truncateSnapshotText(text, 1000)).toBe(text);
+  });
+});
+
+describe("budgetDowngradeText", () => {
+  const text = `### Page
+- Page URL: http://test.com
+- Page Title: Test
+### Snapshot
+\`\`\`yaml
+- button "One" [ref=e1]
+- button "Two" [ref=e2]
+\`\`\``;
+  const policy = { mode: "summarize" as const, minSize: 10, maxSize: 24 };
+
+  it("truncates with a one-line notice", () => {
+    const result = budgetDowngradeText(text, policy, "truncate", "daily token budget (100) exhausted");
+    expect(result.split("\n")[0]).toBe(
+      "[playwright-slim: daily token budget (100) exhausted; snapshots are truncated instead of summarized]"
+    );
+    expect(result).toContain("### Snapshot (truncated)");
+  });
+
+  it("passes the snapshot through and skips small snapshots", () => {
+    expect(budgetDowngradeText(text, policy, "passthrough", "x")).toBe(
+      `[playwright-slim: x; snapshots are returned in full instead of summarized]\n${text}`
+    );
+    expect(budgetDowngradeText(text, { ...policy, minSize: 1000 }, "truncate", "x")).toBe(text);
+  });
+});
+
+describe("fallbackSnapshotText", () => {
+  const text = `### Page
+- Page URL: http://test.com
+- Page Title: Test
+### Snapshot
+\`\`\`yaml
+- generic [ref=e1]:
+  - button "One" [ref=e2]
+  - button "Two" [ref=e3]
+\`\`\``;
+  const policy = { mode: "summarize" as const, minSize: 10, maxSize: 40 };
+  const err = new Error("Anthropic API error: Error: 529 overloaded\n    at stack");
+
+  it("truncates under a warning banner", () => {
+    const result = fallbackSnapshotText(text, policy, "truncate", err);
+    expect(result.split("\n")[0]).toBe(
+      "[playwright-slim: summarization failed (Anthropic API error: Error: 529 overloaded); showing the truncated snapshot instead]"
+    );
+    expect(result).toContain("### Snapshot (truncated)");
+  });
+
+  it("prunes under a warning banner", () => {
+    const result = fallbackSnapshotText(text, policy, "prune", err);
+    expect(result).toContain("showing a pruned snapshot instead]");
+    expect(result).toContain('### Snapshot (pruned)\n- button "One" [ref=e2]\n- button "Two" [ref=e3]');
+  });
+});
+
+describe("summarizeSnapshot ref validation", () => {
+  const yaml = Array.from({ length: 30 }, (_, i) => `- button "Action ${i}" [ref=e${i}]`).join("\n");
+  const text = `### Page
+- Page URL: http://test.com/refs
+- Page Title: Refs
+### Snapshot
+\`\`\`yaml
+${yaml}
+\`\`\``;
+
+  function fakeProvider(name: string, ...replies: string[]): SummarizerProvider & { summarize: ReturnType<typeof vi.fn> } {
+    const summarize = vi.fn();
+    for (const reply of replies) summarize.mockResolvedValueOnce({ text: reply });
+    return { name, model: "fake", summarize, withModel: () => fakeProvider(name, ...replies) };
+  }
+
+  it("strips invented refs by default", async () => {
+    const provider = fakeProvider("strip-test", "Actions: [ref=e1], [ref=e999]");
+    const result = await summarizeSnapshot(text, { provider });
+    expect(result).toContain("### Snapshot (summarized)\nActions: [ref=e1],");
+    expect(result).not.toContain("e999");
+  });
+
+  it("re-prompts once when configured", async () => {
+    const provider = fakeProvider("reprompt-test", "Bad [ref=e999]", "Good [ref=e2]");
+    const result = await summarizeSnapshot(text, { provider, refValidation: "reprompt" });
+    expect(provider.summarize).toHaveBeenCalledTimes(2);
+    expect(provider.summarize.mock.calls[1][0].prompt).toContain("do not exist in this snapshot: e999");
+    expect(result).toContain("Good [ref=e2]");
+  });
+
+  it("leaves refs alone when validation is off", async () => {
+    const provider = fakeProvider("off-test", "Bad [ref=e999]");
+    const result = await summarizeSnapshot(text, { provider, refValidation: "off" });
+    expect(result).toContain("Bad [ref=e999]");
+  });
+});
+
+describe("summarizeSnapshot focus", () => {
+  const text = `### Page
+- Page URL: http://test.com/invoice
+- Page Title: Invoice
+### Snapshot
+\`\`\`yaml
+${Array.from({ length: 30 }, (_, i) => `- row "Line item ${i}" [ref=e${i}]`).join("\n")}
+\`\`\``;
+
+  function promptFor(focus?: string) {
+    const summarize = vi.fn(async (_request: { prompt: string }) => ({ text: "Invoice [ref=e1]" }));
+    const provider: SummarizerProvider = { name: "focus-test", model: "fake", summarize, withModel: () => provider };
+    return summarizeSnapshot(text, { provider, focus }).then(() => summarize.mock.calls[0][0].prompt);
+  }
+
+  it("steers the prompt towards the focus", async () => {
+    const prompt = await promptFor("the invoice total");
+    expect(prompt).toContain('The agent is looking for: "the invoice total".');
+    expect(prompt).toContain("Summarize everything else in a few words.");
+  });
+
+  it("leaves the prompt generic without a focus", async () => {
+    expect(await promptFor()).not.toContain("looking for");
+  });
+});
+
+describe("summarizeSnapshot prune mode", () => {
+  it("prunes offline without calling the provider", async () => {
+    const text = `### Page
+- Page URL: http://test.com/list
+- Page Title: List
+### Snapshot
+\`\`\`yaml
+${Array.from({ length: 30 }, (_, i) => `- button "Item ${i}" [ref=e${i}]`).join("\n")}
+\`\`\``;
+    const summarize = vi.fn();
+    const provider: SummarizerProvider = { name: "prune-test", model: "fake", summarize, withModel: () => provider };
+    const result = await summarizeSnapshot(text, { provider, minSize: 0, mode: "prune" });
+    expect(result).toContain('### Snapshot (summarized)\n- button "Item 0" [ref=e0]');
+    expect(summarize).not.toHaveBeenCalled();
+  });
+});
+
+describe("withInjectedArgument", () => {
+  it("adds the argument to a copy of the input schema", () => {
+    const inputSchema = { type: "object", properties: { url: { type: "string" } }, required: ["url"] };
+    const tool = { name: "browser_navigate", inputSchema };
+
+    const focused = withInjectedArgument(tool, "focus")!;
+    const detailed = withInjectedArgument(focused, "snapshot_detail")!;
+
+    expect(Object.keys(detailed.inputSchema.properties)).toEqual(["url", "focus", "snapshot_detail"]);
+    expect(detailed.inputSchema).toMatchObject({
+      type: "object",
+      required: ["url"],
+      properties: { snapshot_detail: { enum: ["none", "refs-only", "summary", "full"] } },
+    });
+    expect(inputSchema.properties).not.toHaveProperty("focus");
+  });
+
+  it("skips tools that already take an argument of that name", () => {
+    const tool = { name: "t", inputSchema: { properties: { focus: { type: "boolean" } } } };
+    expect(withInjectedArgument(tool, "focus")).toBeNull();
+  });
+});
+
+describe("reducedSnapshotText", () => {
+  const text = `### Ran Playwright code
+await page.click('Next');
+### Page
+- Page URL: http://test.com/form
+- Page Title: Form
+### Snapshot
+\`\`\`yaml
+- heading "Sign up" [level=1] [ref=e1]
+- textbox "Email" [ref=e2]
+- button "Next" [ref=e3]
+\`\`\``;
+
+  it("drops the snapshot for none, without recording it for diffs", () => {
+    const history = new Map<string, string>();
+    const result = reducedSnapshotText(text, "none", history);
+    expect(result).toContain("### Snapshot (omitted)");
+    expect(result).toContain("- Page URL: http://test.com/form");
+    expect(result).not.toContain("[ref=");
+    expect(history.size).toBe(0);
+  });
+
+  it("lists only the interactive elements for refs-only", () => {
+    const history = new Map<string, string>();
+    const result = reducedSnapshotText(text, "refs-only", history);
+    expect(result).toContain('### Snapshot (interactive elements)\n- textbox "Email" [ref=e2]\n- button "Next" [ref=e3]');
+    expect(result).not.toContain("Sign up");
+    expect(history.has("http://test.com/form")).toBe(true);
+  });
+
+  it("applies to passthrough tools such as browser_snapshot_full", async () => {
+    const context = toolResultContext({ detail: "refs-only" });
+    const result = await processToolResult("browser_snapshot_full", { content: [{ type: "text", text }] }, context);
+    expect(result.content[0].text).toContain("### Snapshot (interactive elements)\n- textbox \"Email\" [ref=e2]");
+    expect(result.content[0].text).not.toContain("Sign up");
+    expect(context.provider.summarize).not.toHaveBeenCalled();
+  });
+});
+
+describe("processToolResult overflow cap", () => {
+  const big = { content: [{ type: "text", text: "x".repeat(50000) }] };
+
+  it("stashes oversized output", async () => {
+    const context = toolResultContext();
+    const result = await processToolResult("browser_evaluate", big, context);
+    expect(result.content[0].text).toContain('handle "result-1"');
+    expect(context.resultStash.get("result-1")).toBe(big.content[0].text);
+  });
+
+  it("leaves explicit requests for the full output alone", async () => {
+    expect(await processToolResult("browser_snapshot_full", big, toolResultContext())).toBe(big);
+    expect(await processToolResult("browser_evaluate", big, toolResultContext({ detail: "full" }))).toBe(big);
+  });
+
+  it("leaves configured passthrough tools alone", async () => {
+    const config = defaultConfig({});
+    const context = toolResultContext({ config: { ...config, tools: { ...config.tools, my_dump: { mode: "passthrough" } } } });
+    expect(await processToolResult("my_dump", big, context)).toBe(big);
+  });
+});
+
+describe("processToolResult images", () => {
+  const png = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==";
+
+  it("says why images are not described once the budget is used up", async () => {
+    const config = defaultConfig({});
+    const context = toolResultContext({
+      config: { ...config, images: { ...config.images, mode: "describe" } },
+      budget: new BudgetTracker({ downgradeMode: "truncate", pricing: {}, sessionTokens: 0 }),
+    });
+    const image = { type: "image", data: png, mimeType: "image/png" };
+    const result = await processToolResult("browser_take_screenshot", { content: [image] }, context);
+    expect(result.content).toEqual([
+      { type: "text", text: "[playwright-slim: session token budget (0) exhausted; images are downscaled instead of described]" },
+      image,
+    ]);
+    expect(context.provider.summarize).not.toHaveBeenCalled();
+  });
+});
+
+describe("summarizeSnapshot chunking", () => {
+  it("summarizes each chunk of a large snapshot and keeps refs from all of them", async () => {
+    const sections = ["banner", "main", "footer"].map(
+      (name) => `- ${name}:\n${Array.from({ length: 8 }, (_, i) => `  - link "${name} ${i}" [ref=${name}-${i}]`).join("\n")}`
+    );
+    const text = `### Page
+- Page URL: http://test.com/chunks
+- Page Title: Chunks
+### Snapshot
+\`\`\`yaml
+${sections.join("\n")}
+\`\`\``;
+    const summarize = vi.fn(async ({ prompt }: { prompt: string }) => {
+      const section = prompt.match(/```yaml\n- (\w+):/)![1];
+      return { text: `${section} links [ref=${section}-0]` };
+    });
+    const provider: SummarizerProvider = { name: "chunk-test", model: "fake", summarize, withModel: () => provider };
+
+    const result = await summarizeSnapshot(text, { provider, minSize: 0, maxSize: 300 });
+
+    expect(summarize).toHaveBeenCalledTimes(3);
+    expect(summarize.mock.calls[0][0].prompt).toContain("part 1 of 3");
+    expect(result).toContain("Part 1 of 3:\nbanner links [ref=banner-0]");
+    expect(result).toContain("Part 3 of 3:\nfooter links [ref=footer-0]");
+  });
+});
@@ -1,172 +1,169 @@
-#!/usr/bin/env node
-
-import { spawn, exec, ChildProcess } from "child_process";
 import { createInterface } from "readline";
-import { appendFileSync, mkdirSync } from "fs";
-import { join, dirname } from "path";
-import { fileURLToPath } from "url";
-import Anthropic from "@anthropic-ai/sdk";
-
-// ES module equivalents of __filename and __dirname
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = dirname(__filename);
-
-// Logger setup - logs to logs/ directory relative to package root
-// Set DEBUG=1 or PLAYWRIGHT_SLIM_DEBUG=1 to enable file logging
-const DEBUG_ENABLED = process.env.DEBUG === "1" || process.env.PLAYWRIGHT_SLIM_DEBUG === "1";
-const LOG_DIR = join(__dirname, "..", "logs");
-const LOG_FILE = join(LOG_DIR, `mcp-${new Date().toISOString().replace(/[:.]/g, "-")}.log`);
-
-function ensureLogDir(): void {
-  if (!DEBUG_ENABLED) return;
-  try {
-    mkdirSync(LOG_DIR, { recursive: true });
-  } catch {
-    // Ignore if already exists
-  }
-}
-
-function log(level: "INFO" | "ERROR" | "DEBUG", message: string, data?: unknown): void {
-  if (!DEBUG_ENABLED) return;
-
-  const timestamp = new Date().toISOString();
-  const logLine = data
-    ? `[${timestamp}] [${level}] ${message} ${JSON.stringify(data)}\n`
-    : `[${timestamp}] [${level}] ${message}\n`;
-
-  try {
-    appendFileSync(LOG_FILE, logLine);
-  } catch {
-    // Silently ignore logging errors to not break MCP communication
-  }
-}
-
-// Tool alias: browser_snapshot_full -> browser_snapshot (without summarization)
-const TOOL_ALIASES: Record<string, string> = {
-  browser_snapshot_full: "browser_snapshot",
-};
-
-// Tools that should NOT have their responses summarized
-const SKIP_SUMMARIZE_TOOLS = new Set([
-  "browser_snapshot_full", // Explicit full snapshot request
-]);
+import { AsyncLocalStorage } from "async_hooks";
+import { log, ensureLogDir, LOG_FILE } from "./logger.js";
+import { listInteractiveElements, pruneSnapshot } from "./pruner.js";
+import { diffSnapshots, formatSnapshotDiff } from "./diff.js";
+import {
+  createProvider,
+  providerOptionsFromEnv,
+  SummarizerProvider,
+  withAbortSignal,
+} from "./providers.js";
+import { SummaryCache, summaryCacheFromEnv } from "./cache.js";
+import {
+  BudgetPolicy,
+  defaultConfig,
+  FailurePolicy,
+  loadConfig,
+  resolveToolPolicy,
+  RefValidationMode,
+  SlimConfig,
+  ToolPolicy,
+} from "./config.js";
+import { hasInvalidRefs, validateSummaryRefs } from "./refs.js";
+import { appendMissingCriticalNodes } from "./critical.js";
+import { mapWithConcurrency, splitSnapshot } from "./chunking.js";
+import { summarizeEvents } from "./events.js";
+import { parsePlaywrightResponse, ParsedSnapshot } from "./response.js";
+import { summarizeNetworkRequests } from "./network.js";
+import { SLIM_STATS_TOOL, StatsCollector } from "./stats.js";
+import { Stash } from "./stash.js";
+import { buildImageDescriptionPrompt, ImageShrinker, SLIM_FETCH_IMAGE_TOOL } from "./images.js";
+import { fetchStashedResult, overflowPreview, SLIM_FETCH_RESULT_TOOL } from "./overflow.js";
+import { BudgetTracker } from "./budget.js";
+import { withRetries } from "./failure.js";
+import { resolveHttpPort, SlimHttpServer } from "./http.js";
+import { TextTransformer, TransformerRegistry } from "./transformers.js";
+import { OutputSequencer, SequencedLine } from "./sequencer.js";
+import { BatchCollector } from "./batches.js";
+import {
+  loadRecording,
+  RecordedEntry,
+  ReplayUpstream,
+  ReplaySummarizer,
+  resolveRecordingMode,
+  SessionRecorder,
+} from "./recording.js";
+import { ProcessUpstream, RemoteUpstream, Upstream, UpstreamHandlers } from "./upstream.js";
+
+// Summarization backend - Anthropic by default, configurable via PLAYWRIGHT_SLIM_PROVIDER
+const providerOptions = providerOptionsFromEnv(process.env);
+const defaultProvider = createProvider(providerOptions);
+
+// Content-addressed summary cache - null when disabled via PLAYWRIGHT_SLIM_CACHE=0
+const summaryCache = summaryCacheFromEnv(process.env);
+
+// Image downscaling runs on a worker thread shared by all sessions
+const imageShrinker = new ImageShrinker();
 
 /**
- * Parsed result from a Playwright response containing page and snapshot info.
+ * Whether to summarize through the MCP client's model (sampling/createMessage).
+ * Used when explicitly configured, or when no provider is configured and there is
+ * no Anthropic key to fall back on.
  */
-export interface ParsedSnapshot {
-  url: string;
-  title: string;
-  snapshotYaml: string;
-  /** The full matched text from "### Page" through end of snapshot, for replacement */
-  fullMatch: string;
+export function shouldUseSampling(env: NodeJS.ProcessEnv, clientSupportsSampling: boolean): boolean {
+  if (!clientSupportsSampling) return false;
+  if (env.PLAYWRIGHT_SLIM_PROVIDER) return env.PLAYWRIGHT_SLIM_PROVIDER === "sampling";
+  return !env.ANTHROPIC_API_KEY;
 }
 
-/**
- * Parse a Playwright MCP response to extract page info and snapshot.
- * More robust than regex - handles varying content between sections.
- */
-export function parsePlaywrightResponse(text: string): ParsedSnapshot | null {
-  // Find the "### Page" section start
-  const pageSectionStart = text.indexOf("### Page\n");
-  if (pageSectionStart === -1) return null;
+// Prefix for ids of requests the proxy itself sends to the client, so their
+// responses can be told apart from traffic meant for Playwright MCP
+const CLIENT_REQUEST_ID_PREFIX = "playwright-slim-";
 
-  // Find where the Page section ends (next ### or end of text)
-  const afterPageHeader = pageSectionStart + "### Page\n".length;
-  const nextSectionAfterPage = text.indexOf("\n### ", afterPageHeader);
-  const pageSectionEnd =
-    nextSectionAfterPage !== -1 ? nextSectionAfterPage : text.length;
-  const pageSection = text.slice(afterPageHeader, pageSectionEnd);
+// Sampling may wait on user approval in the client, so allow plenty of time
+const CLIENT_REQUEST_TIMEOUT_MS = 120000;
 
-  // Extract URL and Title from the Page section
-  const urlMatch = pageSection.match(/^- Page URL: (.+)$/m);
-  const titleMatch = pageSection.match(/^- Page Title: (.+)$/m);
-  if (!urlMatch || !titleMatch) return null;
+// Tool calls and batched requests the upstream has not answered after this long are failed
+const PENDING_REQUEST_TIMEOUT_MS = 10 * 60 * 1000;
 
-  // Find the "### Snapshot" section with yaml content
-  const snapshotHeaderStart = text.indexOf("### Snapshot\n", pageSectionStart);
-  if (snapshotHeaderStart === -1) return null;
+// How often pending requests are checked for expiry
+const PENDING_REQUEST_CHECK_INTERVAL_MS = 30_000;
 
-  const yamlStart = text.indexOf("```yaml\n", snapshotHeaderStart);
-  if (yamlStart === -1) return null;
+// Size thresholds used when no per-tool policy applies
+const DEFAULT_POLICY = defaultConfig().defaults;
 
-  const yamlContentStart = yamlStart + "```yaml\n".length;
-  const yamlEnd = text.indexOf("```", yamlContentStart);
-  if (yamlEnd === -1) return null;
+// Large snapshots are split into chunks of maxSize; beyond this many chunks the rest is dropped
+const MAX_CHUNKS = 10;
 
-  const snapshotYaml = text.slice(yamlContentStart, yamlEnd);
+// Max chunk summaries requested in parallel
+const CHUNK_CONCURRENCY = 3;
 
-  // fullMatch spans from "### Page" through end of snapshot code block
-  const fullMatch = text.slice(pageSectionStart, yamlEnd + "```".length);
+// A diff is only returned while it is smaller than this fraction of the full snapshot
+const MAX_DIFF_RATIO = 0.5;
 
-  return {
-    url: urlMatch[1],
-    title: titleMatch[1],
-    snapshotYaml,
-    fullMatch,
-  };
-}
+// Max number of page URLs to keep a baseline snapshot for
+const MAX_SNAPSHOT_HISTORY = 50;
 
-// Pattern to find the Events section
-export const EVENTS_PATTERN = /### Events\n([\s\S]*?)(?=\n###|$)/;
+// Proxy-only CLI flags start with this prefix and are not forwarded to Playwright MCP
+const PROXY_FLAG_PREFIX = "--slim-";
 
 /**
- * Collapse consecutive duplicate lines in the Events section.
- * Repeats are shown as the first instance followed by "[repeated N times]".
+ * How snapshots are summarized:
+ * - "llm": send the snapshot to the summarization model (default)
+ * - "prune": deterministic offline pruning, no API calls
  */
-export function summarizeEvents(fullText: string): string {
-  const match = fullText.match(EVENTS_PATTERN);
-  if (!match) {
-    return fullText;
-  }
-
-  const [fullMatch, eventsContent] = match;
-  const lines = eventsContent.split("\n");
-
-  const outputLines: string[] = [];
-  let i = 0;
-
-  while (i < lines.length) {
-    const currentLine = lines[i];
-    let count = 1;
-
-    // Count consecutive identical lines
-    while (i + count < lines.length && lines[i + count] === currentLine) {
-      count++;
-    }
-
-    outputLines.push(currentLine);
-    if (count > 1) {
-      outputLines.push(`  [repeated ${count} times]`);
-    }
-
-    i += count;
-  }
+export type SummarizeMode = "llm" | "prune";
 
-  // Only replace if we reduced line count
-  if (outputLines.length >= lines.length) {
-    return fullText;
+/**
+ * Resolve the summarization mode from the --slim-mode=<mode> flag or the
+ * PLAYWRIGHT_SLIM_MODE env var. The flag takes precedence.
+ */
+export function resolveSummarizeMode(
+  argv: string[],
+  envValue: string | undefined
+): SummarizeMode {
+  const flag = argv.find((arg) => arg.startsWith(`${PROXY_FLAG_PREFIX}mode=`));
+  const value = flag ? flag.slice(`${PROXY_FLAG_PREFIX}mode=`.length) : envValue;
+  if (!value) return "llm";
+  if (value !== "llm" && value !== "prune") {
+    throw new Error(`Invalid summarize mode "${value}" (expected "llm" or "prune")`);
   }
+  return value;
+}
 
-  log("DEBUG", "Summarized events section", {
-    originalLines: lines.length,
-    summarizedLines: outputLines.length,
-  });
+/**
+ * Replace the Page and Snapshot sections with the page info and a summary.
+ */
+function replaceSnapshotSection(
+  fullText: string,
+  parsed: ParsedSnapshot,
+  summary: string,
+  heading = "Snapshot (summarized)"
+): string {
+  const newPageState = `### Page
+- Page URL: ${parsed.url}
+- Page Title: ${parsed.title}
+### ${heading}
+${summary}`;
 
-  const newEventsSection = `### Events\n${outputLines.join("\n")}`;
-  return fullText.replace(fullMatch, newEventsSection);
+  return fullText.replace(parsed.fullMatch, newPageState);
 }
 
-// Initialize Anthropic client - reads ANTHROPIC_API_KEY from environment
-const anthropic = new Anthropic();
-
-// Model for summarization - can be overridden via env var
-const SUMMARIZE_MODEL = process.env.PLAYWRIGHT_SLIM_MODEL || "claude-haiku-4-5";
+export interface SummarizeOptions {
+  provider?: SummarizerProvider;
+  /** Snapshots smaller than this (chars) are passed through unchanged */
+  minSize?: number;
+  /** Larger snapshots (chars) are split into chunks that are summarized separately */
+  maxSize?: number;
+  /** What to do with refs in the summary that are not in the snapshot */
+  refValidation?: RefValidationMode;
+  /** What the agent is looking for; that part of the page is kept in detail */
+  focus?: string;
+  /** "prune" prunes the snapshot offline instead of calling the provider */
+  mode?: SummarizeMode;
+}
 
-// Max snapshot size to send to API (chars). ~100KB keeps us well under token limits.
-const MAX_SNAPSHOT_SIZE = 100000;
+export async function summarizeSnapshot(fullText: string, options: SummarizeOptions = {}): Promise<string> {
+  const {
+    provider = defaultProvider,
+    minSize = DEFAULT_POLICY.minSize,
+    maxSize = DEFAULT_POLICY.maxSize,
+    refValidation = "strip",
+    focus,
+    mode = "llm",
+  } = options;
 
-export async function summarizeSnapshot(fullText: string): Promise<string> {
   const parsed = parsePlaywrightResponse(fullText);
   if (!parsed) {
     log("DEBUG", "parsePlaywrightResponse did not match", {
@@ -176,96 +173,618 @@ export async function summarizeSnapshot(fullText: string): Promise<string> {
     return fullText; // No snapshot found, return as-is
   }
 
-  const { fullMatch, url: pageUrl, title: pageTitle, snapshotYaml } = parsed;
+  const { url: pageUrl, title: pageTitle, snapshotYaml } = parsed;
 
-  // Skip summarization for small snapshots (< 500 chars)
-  if (snapshotYaml.length < 500) {
+  // Skip summarization for small snapshots
+  if (snapshotYaml.length < minSize) {
     log("DEBUG", "Skipping summarization for small snapshot", {
       size: snapshotYaml.length,
     });
     return fullText;
   }
 
-  // Truncate very large snapshots to avoid exceeding API token limits
-  let truncatedYaml = snapshotYaml;
-  let wasTruncated = false;
-  if (snapshotYaml.length > MAX_SNAPSHOT_SIZE) {
-    truncatedYaml = snapshotYaml.slice(0, MAX_SNAPSHOT_SIZE) + "\n... [truncated]";
-    wasTruncated = true;
-    log("INFO", "Truncating large snapshot", {
+  if (mode === "prune") {
+    const summary = pruneSnapshot(snapshotYaml);
+    log("INFO", "Pruned snapshot", {
+      url: pageUrl,
       originalSize: snapshotYaml.length,
-      truncatedSize: MAX_SNAPSHOT_SIZE,
+      summarySize: summary.length,
     });
+    return replaceSnapshotSection(fullText, parsed, summary);
+  }
+
+  // Split very large snapshots so nothing past a fixed cut-off is lost
+  let chunks = splitSnapshot(snapshotYaml, maxSize);
+  const omittedChunks = Math.max(chunks.length - MAX_CHUNKS, 0);
+  if (omittedChunks > 0) {
+    chunks = chunks.slice(0, MAX_CHUNKS);
   }
 
   log("INFO", "Summarizing snapshot", {
+    provider: provider.name,
+    model: provider.model,
     url: pageUrl,
     title: pageTitle,
     snapshotSize: snapshotYaml.length,
-    wasTruncated,
+    chunks: chunks.length,
+    omittedChunks,
+    focus,
   });
 
-  const prompt = `Summarize this page accessibility snapshot very concisely (max ~10 lines).
-  Include the main headings, key interactive elements, and any form fields.
+  try {
+    const summaries = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, (chunk, index) => {
+      const partNote =
+        chunks.length > 1
+          ? `\nNote: This is part ${index + 1} of ${chunks.length} of a large snapshot. Summarize only this part.`
+          : "";
+      return summarizeChunk(
+        buildSummaryPrompt(parsed, chunk, partNote, focus),
+        snapshotYaml,
+        provider,
+        refValidation
+      );
+    });
+
+    let summary =
+      summaries.length === 1
+        ? summaries[0]
+        : summaries.map((part, index) => `Part ${index + 1} of ${summaries.length}:\n${part}`).join("\n\n");
+    if (omittedChunks > 0) {
+      summary += `\n\n[${omittedChunks} more parts of this page were not summarized; use ${FULL_SNAPSHOT_TOOL} to see them]`;
+    }
+
+    // Dialogs, alerts, focus and form state must survive however terse the summary is
+    const critical = appendMissingCriticalNodes(summary, snapshotYaml);
+    if (critical.added.length > 0) {
+      log("INFO", "Appended critical nodes missing from summary", {
+        reasons: critical.added.map((node) => node.reason),
+      });
+      summary = critical.text;
+    }
+
+    // Replace the snapshot section with the summary
+    return replaceSnapshotSection(fullText, parsed, summary);
+  } catch (err) {
+    // Intentionally throw on error - never fall back to unsummarized content
+    log("ERROR", `Error calling ${provider.name} API`, { error: String(err), stack: err instanceof Error ? err.stack : undefined });
+    throw new Error(`${provider.name} API error: ${err instanceof Error ? err.stack : String(err)}`);
+  }
+}
+
+function buildSummaryPrompt(parsed: ParsedSnapshot, yaml: string, note: string, focus?: string): string {
+  const focusNote = focus
+    ? `
+The agent is looking for: ${JSON.stringify(focus)}.
+Keep the part of the page relevant to that in detail: every element in that subtree with its text and [ref=XXX] value, beyond the ~10 line limit if needed. Summarize everything else in a few words. If nothing on the page matches, say so.`
+    : "";
+  return `Summarize this page accessibility snapshot very concisely (max ~10 lines).
+  Include the main headings, key interactive elements, and any form fields.${focusNote}
 Keep [ref=XXX] values for ALL interactive elements (buttons, links, inputs, tabs, checkboxes), unless they are repeating elements like buttons in a table. In that case include the first 3 of that type and then describe the rest as "N more similar items".
 Format: Brief description, then list key elements with their refs.
 Omit: decorative images, generic containers, style details.
-${wasTruncated ? "\nNote: This snapshot was truncated due to size. Summarize what's visible." : ""}
-Page: ${pageTitle}
-URL: ${pageUrl}
+${note}
+Page: ${parsed.title}
+URL: ${parsed.url}
 
 \`\`\`yaml
-${truncatedYaml}
+${yaml}
 \`\`\``;
+}
 
-  try {
-    const message = await anthropic.messages.create({
-      model: SUMMARIZE_MODEL,
-      max_tokens: 1024,
-      messages: [{ role: "user", content: prompt }],
-    });
+/**
+ * Summarize one prompt's worth of snapshot, going through the cache and
+ * checking the refs in the result against the full snapshot.
+ */
+async function summarizeChunk(
+  prompt: string,
+  snapshotYaml: string,
+  provider: SummarizerProvider,
+  refValidation: RefValidationMode
+): Promise<string> {
+  // The prompt embeds the snapshot, so it plus the backend fully determine the summary
+  const cacheKey = SummaryCache.key(provider.name, provider.model, prompt);
+  const cached = summaryCache?.get(cacheKey);
+  if (cached !== undefined) {
+    log("INFO", "Using cached summary", { summarySize: cached.length });
+    return cached;
+  }
+
+  const result = await provider.summarize({ prompt, maxTokens: 1024 });
+
+  let summary = result.text.trim();
+  log("INFO", "Summarization complete", {
+    promptSize: prompt.length,
+    summarySize: summary.length,
+    usage: result.usage,
+    summary,
+  });
 
-    // Extract text from the response
-    const textBlock = message.content.find((block) => block.type === "text");
-    if (!textBlock || textBlock.type !== "text") {
-      const err = new Error("Anthropic API returned no text content");
-      log("ERROR", "No text in Anthropic response", { content: message.content });
-      throw err;
+  if (refValidation !== "off") {
+    let validation = validateSummaryRefs(summary, snapshotYaml);
+    if (refValidation === "reprompt" && hasInvalidRefs(validation)) {
+      const invalidRefs = [...Object.keys(validation.corrected), ...validation.stripped];
+      log("INFO", "Re-prompting for invalid refs", { invalidRefs });
+      const retry = await provider.summarize({
+        prompt: `${prompt}
+
+A previous summary used refs that do not exist in this snapshot: ${invalidRefs.join(", ")}.
+Only use [ref=...] values that appear in the snapshot above.`,
+        maxTokens: 1024,
+      });
+      validation = validateSummaryRefs(retry.text.trim(), snapshotYaml);
     }
+    log(hasInvalidRefs(validation) ? "INFO" : "DEBUG", "Ref validation", {
+      valid: validation.valid.length,
+      corrected: validation.corrected,
+      stripped: validation.stripped,
+    });
+    summary = validation.text;
+  }
 
-    const summary = textBlock.text.trim();
-    log("INFO", "Summarization complete", {
-      originalSize: snapshotYaml.length,
-      summarySize: summary.length,
-      summary,
+  summaryCache?.set(cacheKey, summary);
+  return summary;
+}
+
+/**
+ * Record the snapshot in `history` and, if a baseline exists for the same page URL,
+ * replace the snapshot with the changes since then.
+ * Returns null when a full summary should be produced instead (no baseline, diffing
+ * not allowed for this call, or the diff is too large to be worth it).
+ */
+export function diffSnapshotText(
+  fullText: string,
+  history: Map<string, string>,
+  allowDiff: boolean,
+  minSize = DEFAULT_POLICY.minSize
+): string | null {
+  const parsed = parsePlaywrightResponse(fullText);
+  if (!parsed) return null;
+
+  const { url, snapshotYaml } = parsed;
+  const previous = history.get(url);
+
+  // Re-insert so the Map's iteration order tracks recency
+  history.delete(url);
+  history.set(url, snapshotYaml);
+  if (history.size > MAX_SNAPSHOT_HISTORY) {
+    history.delete(history.keys().next().value!);
+  }
+
+  if (!allowDiff || previous === undefined || snapshotYaml.length < minSize) {
+    return null;
+  }
+
+  const diff = diffSnapshots(previous, snapshotYaml);
+  const body = formatSnapshotDiff(diff);
+  if (body.length > snapshotYaml.length * MAX_DIFF_RATIO) {
+    log("DEBUG", "Diff too large, falling back to full summary", {
+      url,
+      diffSize: body.length,
+      snapshotSize: snapshotYaml.length,
     });
+    return null;
+  }
 
-    // Replace the snapshot section with the summary
-    const newPageState = `### Page
-- Page URL: ${pageUrl}
-- Page Title: ${pageTitle}
-### Snapshot (summarized)
-${summary}`;
+  log("INFO", "Returning snapshot diff", {
+    url,
+    changed: diff.changed.length,
+    added: diff.added.length,
+    removed: diff.removed.length,
+    diffSize: body.length,
+    snapshotSize: snapshotYaml.length,
+  });
+  return replaceSnapshotSection(fullText, parsed, body, "Snapshot (changes since last action)");
+}
 
-    return fullText.replace(fullMatch, newPageState);
-  } catch (err) {
-    // Intentionally throw on error - never fall back to unsummarized content
-    log("ERROR", "Error calling Anthropic API", { error: String(err), stack: err instanceof Error ? err.stack : undefined });
-    throw new Error(`Anthropic API error: ${err instanceof Error ? err.stack : String(err)}`);
+/**
+ * Cut the snapshot YAML to `maxSize` chars without summarizing it.
+ */
+export function truncateSnapshotText(fullText: string, maxSize: number): string {
+  const parsed = parsePlaywrightResponse(fullText);
+  if (!parsed || parsed.snapshotYaml.length <= maxSize) return fullText;
+
+  log("INFO", "Truncating snapshot", { originalSize: parsed.snapshotYaml.length, truncatedSize: maxSize });
+  const omitted = parsed.snapshotYaml.length - maxSize;
+  const truncated = `${parsed.snapshotYaml.slice(0, maxSize).trimEnd()}\n... [truncated ${omitted} chars]`;
+  return replaceSnapshotSection(fullText, parsed, `\`\`\`yaml\n${truncated}\n\`\`\``, "Snapshot (truncated)");
+}
+
+/**
+ * How much of the page snapshot a tool call returns, overriding the tool's policy:
+ * - "none": no snapshot
+ * - "refs-only": a flat list of the interactive elements and their refs
+ * - "summary": a full summary, never a diff
+ * - "full": the raw snapshot
+ */
+export type SnapshotDetail = "none" | "refs-only" | "summary" | "full";
+
+const SNAPSHOT_DETAILS: readonly SnapshotDetail[] = ["none", "refs-only", "summary", "full"];
+
+// Arguments the proxy adds to tool schemas in tools/list and strips from calls
+const FOCUS_ARGUMENT = "focus";
+const SNAPSHOT_DETAIL_ARGUMENT = "snapshot_detail";
+
+const INJECTED_ARGUMENT_SCHEMAS: Record<string, object> = {
+  [FOCUS_ARGUMENT]: {
+    type: "string",
+    description:
+      'What you are looking for on the page, e.g. "the invoice total". The page snapshot ' +
+      "keeps that part in detail and summarizes the rest briefly.",
+  },
+  [SNAPSHOT_DETAIL_ARGUMENT]: {
+    type: "string",
+    enum: SNAPSHOT_DETAILS,
+    description:
+      'How much of the page snapshot to return: "none" while typing or clicking through a known ' +
+      'flow, "refs-only" for just the interactive elements, "summary" for an overview, "full" for ' +
+      "the raw accessibility tree before a decision. Defaults to a summary, or the changes since " +
+      "the last action.",
+  },
+};
+
+/**
+ * The tool with an optional proxy argument (`focus` or `snapshot_detail`) added to a
+ * copy of its input schema, or null if it already has an argument of that name.
+ */
+export function withInjectedArgument<T extends { inputSchema?: { properties?: Record<string, unknown> } }>(
+  tool: T,
+  name: string
+): T | null {
+  const schema = tool.inputSchema ?? {};
+  if (schema.properties?.[name] !== undefined) return null;
+  return {
+    ...tool,
+    inputSchema: {
+      type: "object",
+      ...schema,
+      properties: { ...schema.properties, [name]: INJECTED_ARGUMENT_SCHEMAS[name] },
+    },
+  };
+}
+
+/**
+ * Remove the injected arguments `names` from a tools/call's arguments, which the
+ * upstream does not know, and return their values. Invalid values are dropped.
+ */
+function takeInjectedArguments(
+  params: { arguments?: Record<string, unknown> } | undefined,
+  names: readonly string[]
+): { focus?: string; detail?: SnapshotDetail } {
+  if (!params?.arguments || names.length === 0) return {};
+  const args = { ...params.arguments };
+  const values: { focus?: string; detail?: SnapshotDetail } = {};
+
+  if (names.includes(FOCUS_ARGUMENT)) {
+    const focus = args[FOCUS_ARGUMENT];
+    if (typeof focus === "string" && focus.trim() !== "") values.focus = focus.trim();
+    delete args[FOCUS_ARGUMENT];
+  }
+  if (names.includes(SNAPSHOT_DETAIL_ARGUMENT)) {
+    const detail = args[SNAPSHOT_DETAIL_ARGUMENT];
+    if (SNAPSHOT_DETAILS.includes(detail as SnapshotDetail)) values.detail = detail as SnapshotDetail;
+    delete args[SNAPSHOT_DETAIL_ARGUMENT];
+  }
+
+  params.arguments = args;
+  return values;
+}
+
+/**
+ * The tool's policy with a call's snapshot_detail applied.
+ */
+function resolveCallPolicy(config: SlimConfig, toolName: string, detail?: SnapshotDetail): ToolPolicy {
+  const policy = resolveToolPolicy(config, toolName);
+  if (detail === "full") return { ...policy, mode: "passthrough" };
+  if (detail === "summary") return { ...policy, mode: "summarize" };
+  return policy;
+}
+
+/**
+ * Replace the snapshot with nothing ("none") or the interactive elements and their
+ * refs ("refs-only").
+ */
+export function reducedSnapshotText(
+  fullText: string,
+  detail: "none" | "refs-only",
+  history: Map<string, string>
+): string {
+  const parsed = parsePlaywrightResponse(fullText);
+  if (!parsed) return fullText;
+
+  if (detail === "none") {
+    // Not recorded, so the next diff is relative to the last snapshot the agent saw
+    return replaceSnapshotSection(
+      fullText,
+      parsed,
+      "Not included. Call browser_snapshot to see the page.",
+      "Snapshot (omitted)"
+    );
   }
+  diffSnapshotText(fullText, history, false);
+  const elements = listInteractiveElements(parsed.snapshotYaml);
+  return replaceSnapshotSection(
+    fullText,
+    parsed,
+    elements || "No interactive elements.",
+    "Snapshot (interactive elements)"
+  );
+}
+
+// Tool whose request listing is rendered compactly
+const NETWORK_REQUESTS_TOOL = "browser_network_requests";
+
+// The default alias for an unsummarized snapshot
+const FULL_SNAPSHOT_TOOL = "browser_snapshot_full";
+
+// Set in a tool result's _meta when a fallback replaced the summary
+const DEGRADED_META_KEY = "playwright-slim/degraded";
+
+/**
+ * Per-proxy state needed to process a tool result.
+ */
+interface ToolResultContext {
+  config: SlimConfig;
+  /** Page URL -> last snapshot YAML, the baseline for diffs */
+  history: Map<string, string>;
+  provider: SummarizerProvider;
+  budget?: BudgetTracker;
+  transformers: TransformerRegistry<ToolResultContext>;
+  /** Aborted when the client cancels the tool call */
+  signal?: AbortSignal;
+  /** The call's focus argument, steering the summary */
+  focus?: string;
+  /** The call's snapshot_detail argument */
+  detail?: SnapshotDetail;
+  /** From --slim-mode or PLAYWRIGHT_SLIM_MODE; "llm" if unset */
+  summarizeMode?: SummarizeMode;
+  /** Originals of changed images, for slim_fetch_image */
+  imageStash: Stash<ImageContent>;
+  /** Text over the overflow cap, for slim_fetch_result */
+  resultStash: Stash<string>;
+}
+
+/**
+ * The summarizer for one tool result: the policy's model, with retries and
+ * cancellation as configured.
+ */
+function resultSummarizer(context: ToolResultContext, model?: string): SummarizerProvider {
+  let provider = model ? context.provider.withModel(model) : context.provider;
+  if (context.config.failure.mode !== "error") provider = withRetries(provider, context.config.failure);
+  if (context.signal) provider = withAbortSignal(provider, context.signal);
+  return provider;
+}
+
+/**
+ * What a summarizing tool returns once the summarization budget is spent:
+ * the snapshot truncated or unchanged, with a one-line notice on top.
+ */
+export function budgetDowngradeText(
+  fullText: string,
+  policy: ToolPolicy,
+  mode: BudgetPolicy["downgradeMode"],
+  reason: string
+): string {
+  const parsed = parsePlaywrightResponse(fullText);
+  if (!parsed || parsed.snapshotYaml.length < policy.minSize) return fullText;
+
+  log("INFO", "Summarization budget exhausted, not summarizing", { reason, mode });
+  const text = mode === "truncate" ? truncateSnapshotText(fullText, policy.maxSize) : fullText;
+  const fallback = mode === "truncate" ? "truncated" : "returned in full";
+  return `[playwright-slim: ${reason}; snapshots are ${fallback} instead of summarized]\n${text}`;
 }
 
-async function processToolResult(toolName: string, result: unknown): Promise<unknown> {
-  if (SKIP_SUMMARIZE_TOOLS.has(toolName)) {
-    return result;
+/**
+ * What a summarizing tool returns in fallback mode when summarization failed:
+ * a truncated or pruned snapshot under a warning banner.
+ */
+export function fallbackSnapshotText(
+  fullText: string,
+  policy: ToolPolicy,
+  fallback: FailurePolicy["fallback"],
+  err: unknown
+): string {
+  const parsed = parsePlaywrightResponse(fullText);
+  if (!parsed) return fullText;
+
+  const reason = (err instanceof Error ? err.message : String(err)).split("\n")[0];
+  log("ERROR", "Summarization failed, falling back", { fallback, reason });
+  const text =
+    fallback === "prune"
+      ? replaceSnapshotSection(fullText, parsed, pruneSnapshot(parsed.snapshotYaml), "Snapshot (pruned)")
+      : truncateSnapshotText(fullText, policy.maxSize);
+  const shown = fallback === "prune" ? "a pruned" : "the truncated";
+  return `[playwright-slim: summarization failed (${reason}); showing ${shown} snapshot instead]\n${text}`;
+}
+
+async function processTextItem(
+  text: string,
+  toolName: string,
+  context: ToolResultContext
+): Promise<{ text: string; degraded: boolean }> {
+  if (context.detail === "none" || context.detail === "refs-only") {
+    return { text: reducedSnapshotText(text, context.detail, context.history), degraded: false };
+  }
+  const policy = resolveCallPolicy(context.config, toolName, context.detail);
+  const failure = context.config.failure;
+
+  switch (policy.mode) {
+    case "truncate":
+      // Still record the snapshot so a later diff is relative to what the agent saw
+      diffSnapshotText(text, context.history, false, policy.minSize);
+      return { text: truncateSnapshotText(text, policy.maxSize), degraded: false };
+    case "diff":
+    case "summarize": {
+      // A focused call asks for a specific part of the page, which a diff may not show
+      const allowDiff = policy.mode === "diff" && !context.focus;
+      const diffText = diffSnapshotText(text, context.history, allowDiff, policy.minSize);
+      if (diffText !== null) return { text: diffText, degraded: false };
+      const exhausted = context.budget?.exhaustedReason();
+      if (exhausted) {
+        return { text: budgetDowngradeText(text, policy, context.budget!.downgradeMode, exhausted), degraded: false };
+      }
+
+      try {
+        const summary = await summarizeSnapshot(text, {
+          provider: resultSummarizer(context, policy.model),
+          minSize: policy.minSize,
+          maxSize: policy.maxSize,
+          refValidation: context.config.refValidation,
+          focus: context.focus,
+          mode: context.summarizeMode,
+        });
+        return { text: summary, degraded: false };
+      } catch (err) {
+        if (failure.mode !== "fallback" || context.signal?.aborted) throw err;
+        return { text: fallbackSnapshotText(text, policy, failure.fallback, err), degraded: true };
+      }
+    }
+    case "passthrough":
+      return { text, degraded: false };
   }
+}
+
+/**
+ * An MCP image content item, e.g. a browser_take_screenshot result.
+ */
+interface ImageContent {
+  type: "image";
+  data: string;
+  mimeType: string;
+}
+
+function isImageContent(item: unknown): item is ImageContent {
+  return (
+    !!item &&
+    typeof item === "object" &&
+    "type" in item &&
+    item.type === "image" &&
+    "data" in item &&
+    typeof item.data === "string" &&
+    "mimeType" in item &&
+    typeof item.mimeType === "string"
+  );
+}
 
+function formatBytes(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Describe an image with the vision model, going through the cache.
+ */
+async function describeImage(
+  image: { data: string; mimeType: string },
+  toolName: string,
+  provider: SummarizerProvider
+): Promise<string> {
+  const prompt = buildImageDescriptionPrompt(toolName);
+  const cacheKey = SummaryCache.key(provider.name, provider.model, prompt, image.data);
+  const cached = summaryCache?.get(cacheKey);
+  if (cached !== undefined) {
+    log("INFO", "Using cached image description", { descriptionSize: cached.length });
+    return cached;
+  }
+
+  log("INFO", `Describing image with ${provider.name}`, { model: provider.model, imageBytes: image.data.length });
+  const result = await provider.summarize({ prompt, maxTokens: 1024, image });
+  summaryCache?.set(cacheKey, result.text);
+  return result.text;
+}
+
+/**
+ * Downscale an image or replace it with a description, per the image policy. The
+ * original goes into the stash so slim_fetch_image can still return it.
+ */
+async function processImageItem(
+  item: ImageContent,
+  toolName: string,
+  context: ToolResultContext
+): Promise<{ items: unknown[]; degraded: boolean }> {
+  const policy = context.config.images;
+  if (policy.mode === "passthrough") return { items: [item], degraded: false };
+
+  const shrunk = await imageShrinker.shrink(item.data, item.mimeType, policy);
+  // Where the agent can get the original, if it fits into the stash
+  const stashOriginal = (): string => {
+    const handle = context.imageStash.put(item, item.data.length);
+    return handle ? `\nCall ${SLIM_FETCH_IMAGE_TOOL.name} with handle "${handle}" for the original.` : "";
+  };
+
+  let degraded = false;
+  let notice: unknown[] = [];
+  const exhausted = context.budget?.exhaustedReason();
+  if (policy.mode === "describe" && exhausted) {
+    log("INFO", "Summarization budget exhausted, not describing", { reason: exhausted });
+    notice = [{ type: "text", text: `[playwright-slim: ${exhausted}; images are downscaled instead of described]` }];
+  } else if (policy.mode === "describe") {
+    try {
+      const description = await describeImage(
+        shrunk ?? item,
+        toolName,
+        resultSummarizer(context, policy.model ?? context.config.model)
+      );
+      return {
+        items: [{ type: "text", text: `### Image (described)\n${description}${stashOriginal()}` }],
+        degraded: false,
+      };
+    } catch (err) {
+      if (context.config.failure.mode !== "fallback" || context.signal?.aborted) throw err;
+      log("ERROR", "Image description failed, downscaling instead", { error: String(err) });
+      degraded = true;
+    }
+  }
+
+  if (!shrunk) return { items: [...notice, item], degraded };
+  log("INFO", "Downscaled image", {
+    from: `${shrunk.originalWidth}x${shrunk.originalHeight}`,
+    to: `${shrunk.width}x${shrunk.height}`,
+    originalBytes: shrunk.originalBytes,
+    bytes: shrunk.bytes,
+  });
+  const from = `${shrunk.originalWidth}x${shrunk.originalHeight} (${formatBytes(shrunk.originalBytes)})`;
+  const to = `${shrunk.width}x${shrunk.height} (${formatBytes(shrunk.bytes)})`;
+  const note = `### Image (downscaled)\nFrom ${from} to ${to}.${stashOriginal()}`;
+  return {
+    items: [...notice, { ...item, data: shrunk.data, mimeType: shrunk.mimeType }, { type: "text", text: note }],
+    degraded,
+  };
+}
+
+/**
+ * The "playwright" preset: snapshot summaries and diffs for every tool, compact
+ * browser_network_requests listings, then compressed events and console messages.
+ */
+const PLAYWRIGHT_PRESET: TextTransformer<ToolResultContext>[] = [
+  { tools: "*", transform: processTextItem },
+  {
+    tools: NETWORK_REQUESTS_TOOL,
+    transform: (text, _toolName, context) => summarizeNetworkRequests(text, context.config.network),
+  },
+  { tools: "*", transform: (text, _toolName, context) => summarizeEvents(text, context.config.events) },
+];
+
+/**
+ * The preset's transformers followed by the config's own.
+ */
+function createTransformerRegistry(config: SlimConfig): TransformerRegistry<ToolResultContext> {
+  const registry = new TransformerRegistry<ToolResultContext>();
+  if (config.preset === "playwright") registry.register(...PLAYWRIGHT_PRESET);
+  return registry.register(...config.transformers);
+}
+
+async function transformToolResult(toolName: string, result: unknown, context: ToolResultContext): Promise<unknown> {
   // Handle the MCP result format - content array with text items
   if (result && typeof result === "object" && "content" in result) {
     const content = (result as { content: unknown[] }).content;
     if (Array.isArray(content)) {
+      let degraded = false;
       const processedContent = await Promise.all(
         content.map(async (item) => {
+          if (isImageContent(item)) {
+            const processed = await processImageItem(item, toolName, context);
+            degraded ||= processed.degraded;
+            return processed.items;
+          }
           if (
             item &&
             typeof item === "object" &&
@@ -273,229 +792,734 @@ async function processToolResult(toolName: string, result: unknown): Promise<unk
             item.type === "text" &&
             "text" in item
           ) {
-            let text = item.text as string;
-            text = await summarizeSnapshot(text);
-            text = summarizeEvents(text);
+            const processed = await context.transformers.apply(item.text as string, toolName, context);
+            degraded ||= processed.degraded;
             return {
               ...item,
-              text,
+              text: processed.text,
             };
           }
           return item;
         })
       );
-      return {
-        ...result,
-        content: processedContent,
-      };
+      const processedResult: Record<string, unknown> = { ...result, content: processedContent.flat() };
+      if (degraded) {
+        // Lets clients tell a fallback snapshot from a real summary
+        processedResult._meta = { ...(result as { _meta?: object })._meta, [DEGRADED_META_KEY]: true };
+      }
+      return processedResult;
     }
   }
 
   return result;
 }
 
-class PlaywrightMCPProxy {
-  private playwrightProcess: ChildProcess | null = null;
-  private pendingRequests = new Map<string | number, string>(); // id -> method name
+/**
+ * Enforce the overflow cap: once the response's text exceeds it, each further text
+ * item is stashed and replaced with a preview.
+ */
+function capToolResult(result: unknown, context: ToolResultContext): unknown {
+  const { maxResponseSize, previewSize } = context.config.overflow;
+  if (maxResponseSize === 0 || !result || typeof result !== "object" || !("content" in result)) return result;
+  const content = (result as { content: { type?: unknown; text?: unknown }[] }).content;
+  if (!Array.isArray(content)) return result;
+
+  let size = 0;
+  let capped = false;
+  const cappedContent = content.map((item) => {
+    if (!item || typeof item !== "object" || item.type !== "text" || typeof item.text !== "string") return item;
+    const text = item.text;
+    if (size + text.length <= maxResponseSize) {
+      size += text.length;
+      return item;
+    }
+
+    const handle = context.resultStash.put(text, text.length);
+    log("INFO", "Stashing oversized output", { handle, size: text.length, maxResponseSize });
+    const preview = overflowPreview(text, handle, previewSize);
+    size += preview.length;
+    capped = true;
+    return { ...item, text: preview };
+  });
+  return capped ? { ...result, content: cappedContent } : result;
+}
+
+/**
+ * Apply snapshot_detail "none" or "refs-only" to the text items of a result that
+ * is otherwise passed through.
+ */
+function reduceToolResult(result: unknown, detail: "none" | "refs-only", history: Map<string, string>): unknown {
+  if (!result || typeof result !== "object" || !("content" in result)) return result;
+  const content = (result as { content: { type?: unknown; text?: unknown }[] }).content;
+  if (!Array.isArray(content)) return result;
+  return {
+    ...result,
+    content: content.map((item) =>
+      item && typeof item === "object" && item.type === "text" && typeof item.text === "string"
+        ? { ...item, text: reducedSnapshotText(item.text, detail, history) }
+        : item
+    ),
+  };
+}
+
+export async function processToolResult(
+  toolName: string,
+  result: unknown,
+  context: ToolResultContext
+): Promise<unknown> {
+  if (resolveCallPolicy(context.config, toolName, context.detail).mode !== "passthrough") {
+    return capToolResult(await transformToolResult(toolName, result, context), context);
+  }
+  if (context.detail === "none" || context.detail === "refs-only") {
+    // Passthrough tools still honor an explicit request for less
+    return capToolResult(reduceToolResult(result, context.detail, context.history), context);
+  }
+  // Passthrough tools and explicit requests for everything get everything, even over the overflow cap
+  return result;
+}
+
+/**
+ * The id of a JSON-RPC response, or undefined for requests and notifications.
+ */
+function responseId(message: unknown): string | number | undefined {
+  if (!message || typeof message !== "object" || "method" in message || !("id" in message)) return undefined;
+  return typeof message.id === "string" || typeof message.id === "number" ? message.id : undefined;
+}
+
+// Tools the proxy answers itself
+const PROXY_TOOL_NAMES = new Set([SLIM_STATS_TOOL.name, SLIM_FETCH_IMAGE_TOOL.name, SLIM_FETCH_RESULT_TOOL.name]);
 
+/**
+ * Where a proxy session's output goes and what ends it - the only differences
+ * between stdio and HTTP mode.
+ */
+interface ProxyIO {
   /**
-   * Kill Chromium/Chrome processes in our process group, leaving the MCP server alive.
-   * Works around @playwright/mcp browser_close not always terminating the browser.
+   * Send one line of JSON to the client, on the stream of `relatedRequestId` if given.
+   * Returns false if the client is not keeping up.
    */
-  private killBrowserProcesses(): void {
-    if (!this.playwrightProcess?.pid) return;
-    const pgid = this.playwrightProcess.pid;
-    exec(`pgrep -g ${pgid} -fi chromium | xargs kill 2>/dev/null`, (err) => {
-      log("DEBUG", "killBrowserProcesses", { pgid, error: err ? String(err) : null });
+  send(line: string, relatedRequestId?: string | number): boolean;
+  /** Resolves once the client has caught up */
+  waitForDrain(): Promise<void>;
+  onUpstreamExit(code: number | null): void;
+}
+
+/**
+ * What a proxy session records its traffic to, or replays it from.
+ */
+interface SessionRecording {
+  recorder?: SessionRecorder;
+  /** This session's part of a recording, standing in for the upstream and summarizer */
+  replay?: RecordedEntry[];
+}
+
+/**
+ * One client session: an upstream Playwright MCP (local process or remote server)
+ * plus everything the proxy tracks for that client.
+ */
+class PlaywrightMCPProxy {
+  private upstream: Upstream | null = null;
+  private pendingRequests = new Map<
+    string | number,
+    { tool: string; startedAt: number; abort: AbortController; focus?: string; detail?: SnapshotDetail }
+  >();
+  // Tool name -> the arguments injected into its schema, which are stripped from its calls
+  private injectedArguments = new Map<string, string[]>();
+  // Cancelled or expired requests whose upstream answer is dropped -> when they were dropped
+  private droppedRequests = new Map<string | number, number>();
+  private expiryTimer: NodeJS.Timeout | null = null;
+  // Upstream messages, in upstream order, on their way to the client
+  private output: OutputSequencer;
+  // Responses to client batches, written as one array once each batch is complete
+  private batches = new BatchCollector();
+  // tools/list request -> its params, so only the first page gets the proxy's tools
+  private toolListRequests = new Map<string | number, { cursor?: string } | undefined>();
+  // Progress token -> the client request it reports on, whose HTTP stream its notifications go to
+  private progressTokens = new Map<string | number, string | number>();
+  private snapshotHistory = new Map<string, string>(); // page URL -> last snapshot YAML
+  private imageStash: Stash<ImageContent>;
+  private resultStash: Stash<string>;
+  private providerOptions = providerOptions;
+  private summarizer: SummarizerProvider = defaultProvider;
+  private clientRequests = new Map<
+    string,
+    { resolve: (result: unknown) => void; reject: (err: Error) => void }
+  >();
+  private nextClientRequestId = 1;
+  private stats = new StatsCollector();
+  private budget: BudgetTracker;
+  private transformers: TransformerRegistry<ToolResultContext>;
+  // The tool call being processed, so requests to the client (sampling) go out on its HTTP stream
+  private currentToolCall = new AsyncLocalStorage<string | number>();
+
+  constructor(
+    private config: SlimConfig,
+    private io: ProxyIO,
+    private recording: SessionRecording = {},
+    private summarizeMode: SummarizeMode = "llm"
+  ) {
+    this.budget = new BudgetTracker(config.budget);
+    this.transformers = createTransformerRegistry(config);
+    this.imageStash = new Stash("img", config.images.stashBytes);
+    this.resultStash = new Stash("result", config.overflow.stashSize);
+    this.output = new OutputSequencer({
+      write: (line, relatedRequestId) => this.sendToClient(line, relatedRequestId),
+      waitForDrain: () => this.io.waitForDrain(),
+      pause: () => this.upstream?.pause(),
+      resume: () => this.upstream?.resume(),
     });
+    if (config.model) {
+      this.providerOptions = { ...providerOptions, model: config.model };
+      this.summarizer = createProvider(this.providerOptions);
+    }
+    if (recording.replay) {
+      this.summarizer = new ReplaySummarizer(recording.replay);
+    }
   }
 
-  private killProcessTree(): void {
-    if (!this.playwrightProcess?.pid) return;
-    try {
-      // Kill the entire process group (negative PID) so Chromium dies too
-      process.kill(-this.playwrightProcess.pid, "SIGTERM");
-    } catch {
-      // Process group may already be dead
-    }
-    // Force kill after 2s if SIGTERM wasn't enough
-    const pid = this.playwrightProcess.pid;
-    setTimeout(() => {
-      try {
-        process.kill(-pid, "SIGKILL");
-      } catch {
-        // Already dead
-      }
-    }, 2000).unref();
+  private sendToClient(line: string, relatedRequestId?: string | number): boolean {
+    this.recording.recorder?.message("proxy-to-client", line);
+    return this.io.send(line, relatedRequestId);
   }
 
-  async start(): Promise<void> {
-    ensureLogDir();
+  private writeToClient(line: string): void {
+    this.sendToClient(line, this.currentToolCall.getStore());
+  }
 
-    // Spawn the real Playwright MCP, passing through any CLI arguments
-    const args = ["@playwright/mcp", ...process.argv.slice(2)];
-    log("INFO", "Starting playwright-slim-mcp proxy", {
-      args: process.argv.slice(2),
-      logFile: LOG_FILE,
-      pid: process.pid,
-    });
+  /**
+   * Send a response the proxy made itself, within its batch if the request came in one.
+   */
+  private respond(response: { jsonrpc: "2.0"; id: string | number; result?: unknown; error?: unknown }): void {
+    const batch = this.batches.add(response.id, response);
+    if (batch === undefined) this.writeToClient(JSON.stringify(response));
+    else if (batch?.length) this.writeToClient(JSON.stringify(batch));
+  }
 
-    this.playwrightProcess = spawn("npx", args, {
-      stdio: ["pipe", "pipe", "inherit"],
-      env: { ...process.env },
-      detached: true, // Create process group so we can kill browser on exit
+  /**
+   * What the client gets for processed upstream messages: each message, except that
+   * responses to a batch are held back until they can go out together.
+   */
+  private withBatchedResponses(messages: unknown[]): unknown[] {
+    return messages.flatMap((message) => {
+      const id = responseId(message);
+      const batch = id === undefined ? undefined : this.batches.add(id, message);
+      return batch === undefined ? [message] : (batch ?? []);
     });
+  }
 
-    if (!this.playwrightProcess.stdout || !this.playwrightProcess.stdin) {
-      log("ERROR", "Failed to spawn Playwright MCP");
-      throw new Error("Failed to spawn Playwright MCP");
+  /**
+   * Stop routing the progress notifications of request `id`, which is answered or gone.
+   */
+  private forgetProgressToken(id: string | number): void {
+    for (const [token, requestId] of this.progressTokens) {
+      if (requestId === id) this.progressTokens.delete(token);
     }
+  }
 
-    log("INFO", "Playwright MCP spawned", { pid: this.playwrightProcess.pid });
+  private sendUpstream(line: string): void {
+    this.recording.recorder?.message("proxy-to-upstream", line);
+    this.upstream?.send(line);
+  }
+
+  /**
+   * Send a proxy-originated JSON-RPC request to the client (e.g. sampling/createMessage).
+   * The response is intercepted in the stdin handler instead of being forwarded upstream.
+   */
+  private requestFromClient(method: string, params: unknown, signal?: AbortSignal): Promise<unknown> {
+    const id = `${CLIENT_REQUEST_ID_PREFIX}${this.nextClientRequestId++}`;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error(`${method} cancelled`));
+        return;
+      }
 
-    // Read from stdin (Claude Code) and forward to Playwright MCP
-    const stdinReader = createInterface({ input: process.stdin });
+      const onAbort = () => {
+        this.clientRequests.delete(id);
+        cleanup();
+        this.writeToClient(
+          JSON.stringify({
+            jsonrpc: "2.0",
+            method: "notifications/cancelled",
+            params: { requestId: id, reason: "Tool call cancelled" },
+          })
+        );
+        reject(new Error(`${method} cancelled`));
+      };
+      const timer = setTimeout(() => {
+        this.clientRequests.delete(id);
+        cleanup();
+        reject(new Error(`Client did not answer ${method} within ${CLIENT_REQUEST_TIMEOUT_MS}ms`));
+      }, CLIENT_REQUEST_TIMEOUT_MS);
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      this.clientRequests.set(id, {
+        resolve: (result) => {
+          cleanup();
+          resolve(result);
+        },
+        reject: (err) => {
+          cleanup();
+          reject(err);
+        },
+      });
 
-    // Clean up child process when stdin closes (parent disconnects)
-    stdinReader.on("close", () => {
-      log("INFO", "stdin closed, shutting down");
-      this.killProcessTree();
-      process.exit(0);
+      log("DEBUG", "Request to client", { id, method });
+      this.writeToClient(JSON.stringify({ jsonrpc: "2.0", id, method, params }));
     });
+  }
 
-    stdinReader.on("line", (line) => {
-      try {
-        const message = JSON.parse(line);
-
-        // Track tool call requests so we know which tool was called
-        if (message.method === "tools/call" && message.id !== undefined) {
-          const originalName = message.params?.name || "";
-          this.pendingRequests.set(message.id, originalName);
-
-          log("INFO", "Tool call", {
-            id: message.id,
-            tool: originalName,
-            params: message.params?.arguments,
-          });
-
-          // Rewrite aliased tool names to their real counterparts
-          if (originalName in TOOL_ALIASES) {
-            log("DEBUG", "Rewriting aliased tool", {
-              from: originalName,
-              to: TOOL_ALIASES[originalName],
-            });
-            message.params.name = TOOL_ALIASES[originalName];
-            this.playwrightProcess?.stdin?.write(
-              JSON.stringify(message) + "\n"
-            );
-            return;
-          }
-        }
+  /**
+   * Resolve a pending proxy-originated request. Returns false if the message
+   * is not a response to one of our requests.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private handleClientResponse(message: any): boolean {
+    if (message.method !== undefined || typeof message.id !== "string") return false;
+    const pending = this.clientRequests.get(message.id);
+    if (!pending) return false;
+
+    this.clientRequests.delete(message.id);
+    if (message.error) {
+      pending.reject(new Error(`Client error ${message.error.code}: ${message.error.message}`));
+    } else {
+      pending.resolve(message.result);
+    }
+    return true;
+  }
 
-        // Forward to Playwright MCP
-        this.playwrightProcess?.stdin?.write(line + "\n");
-      } catch {
-        // Forward non-JSON lines as-is
-        this.playwrightProcess?.stdin?.write(line + "\n");
-      }
-    });
+  /**
+   * The summarizer, recording every request in record mode.
+   */
+  private trackedSummarizer(): SummarizerProvider {
+    const { recorder } = this.recording;
+    return recorder ? recorder.trackSummarizer(this.summarizer) : this.summarizer;
+  }
 
-    // Read from Playwright MCP and process before sending to stdout (Claude Code)
-    const stdoutReader = createInterface({
-      input: this.playwrightProcess.stdout,
+  /**
+   * Answer a slim_stats call without going upstream.
+   */
+  private answerStatsCall(id: string | number): void {
+    const report = this.stats.report({
+      cache: summaryCache ? { hits: summaryCache.hits, misses: summaryCache.misses } : null,
+      upstreamPid: this.upstream?.pid ?? null,
+      pendingRequests: this.pendingRequests.size,
     });
-    stdoutReader.on("line", (line) => {
-      this.processLine(line).catch((err) => {
-        log("ERROR", "Error processing line", { error: String(err) });
-        // Try to extract request ID and return MCP error response
-        try {
-          const message = JSON.parse(line);
-          if (message.id !== undefined) {
-            const errorResponse = {
-              jsonrpc: "2.0",
-              id: message.id,
-              error: {
-                code: -32000,
-                message: `Summarization failed: ${err instanceof Error ? err.message : String(err)}`,
-              },
-            };
-            process.stdout.write(JSON.stringify(errorResponse) + "\n");
-            return;
-          }
-        } catch {
-          // Couldn't parse as JSON, fall through
-        }
-        // Forward original line if we can't construct an error response
-        process.stdout.write(line + "\n");
-      });
+    this.respond({
+      jsonrpc: "2.0",
+      id,
+      result: {
+        content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+        structuredContent: report,
+      },
     });
+  }
 
-    // Handle process exit
-    this.playwrightProcess.on("exit", (code) => {
-      log("INFO", "Playwright MCP exited", { code });
-      process.exit(code || 0);
-    });
+  private answerFetchImageCall(id: string | number, handle: unknown): void {
+    const image = typeof handle === "string" ? this.imageStash.get(handle) : undefined;
+    const result = image
+      ? { content: [image] }
+      : {
+          content: [
+            { type: "text", text: `No image with handle ${JSON.stringify(handle)}; it may have been dropped.` },
+          ],
+          isError: true,
+        };
+    this.respond({ jsonrpc: "2.0", id, result });
+  }
 
-    process.on("SIGINT", () => {
-      log("INFO", "Received SIGINT, shutting down");
-      this.killProcessTree();
-      process.exit(0);
+  private answerFetchResultCall(id: string | number, args: Record<string, unknown>): void {
+    const text = typeof args.handle === "string" ? this.resultStash.get(args.handle) : undefined;
+    const reply =
+      text === undefined
+        ? {
+            text: `No stashed output with handle ${JSON.stringify(args.handle)}; it may have been dropped.`,
+            isError: true,
+          }
+        : fetchStashedResult(text, args.handle as string, args, this.config.overflow.maxResponseSize);
+    this.respond({
+      jsonrpc: "2.0",
+      id,
+      result: { content: [{ type: "text", text: reply.text }], ...(reply.isError && { isError: true }) },
     });
+  }
 
-    process.on("SIGTERM", () => {
-      log("INFO", "Received SIGTERM, shutting down");
-      this.killProcessTree();
-      process.exit(0);
-    });
+  /**
+   * Connect to the upstream MCP server: the configured remote server, or a local one
+   * spawned from `upstream.command` with any CLI arguments except our own.
+   */
+  start(): void {
+    const handlers: UpstreamHandlers = {
+      onLine: (line) => this.handleUpstreamLine(line),
+      onExit: (code) => this.io.onUpstreamExit(code),
+    };
+
+    const { upstream } = this.config;
+    if (this.recording.replay) {
+      this.upstream = new ReplayUpstream(this.recording.replay, handlers);
+    } else if (upstream.url) {
+      this.upstream = new RemoteUpstream(new URL(upstream.url), upstream, handlers);
+    } else {
+      const upstreamArgs = process.argv
+        .slice(2)
+        .filter((arg) => !arg.startsWith(PROXY_FLAG_PREFIX));
+      this.upstream = new ProcessUpstream(upstream.command, [...upstream.args, ...upstreamArgs], handlers, upstream.env);
+    }
+    this.upstream.start();
 
-    process.on("SIGHUP", () => {
-      log("INFO", "Received SIGHUP, shutting down");
-      this.killProcessTree();
-      process.exit(0);
-    });
+    this.expiryTimer = setInterval(() => this.expirePendingRequests(), PENDING_REQUEST_CHECK_INTERVAL_MS);
+    this.expiryTimer.unref();
+  }
 
-    // Catch-all for any exit path
-    process.on("exit", () => {
-      this.killProcessTree();
-    });
+  /**
+   * Process a line from the upstream and queue the result for the client.
+   */
+  private handleUpstreamLine(line: string): void {
+    this.recording.recorder?.message("upstream-to-proxy", line);
+    this.output.push(
+      this.processLine(line).catch((err) => {
+        log("ERROR", "Error processing line", { error: String(err) });
+        return line;
+      })
+    );
+  }
+
+  /**
+   * Stop the upstream and its browser.
+   */
+  close(): void {
+    if (this.expiryTimer) clearInterval(this.expiryTimer);
+    this.upstream?.close();
+    for (const pending of this.pendingRequests.values()) {
+      pending.abort.abort();
+    }
+    for (const pending of this.clientRequests.values()) {
+      pending.reject(new Error("Session closed"));
+    }
+    this.clientRequests.clear();
   }
 
-  private async processLine(line: string): Promise<void> {
+  /**
+   * Stop processing a tool call the client no longer wants; the upstream's answer
+   * will be dropped.
+   */
+  private cancelToolCall(id: string | number, reason: unknown): void {
+    const pending = this.pendingRequests.get(id);
+    if (!pending) return;
+
+    log("INFO", "Tool call cancelled", { id, tool: pending.tool, reason });
+    this.pendingRequests.delete(id);
+    this.forgetProgressToken(id);
+    this.droppedRequests.set(id, Date.now());
+    pending.abort.abort();
+    // A cancelled request gets no response, but the rest of its batch still does
+    const batch = this.batches.add(id);
+    if (batch?.length) this.writeToClient(JSON.stringify(batch));
+  }
+
+  /**
+   * Fail tool calls and batched requests the upstream never answered, and forget
+   * dropped ones.
+   */
+  private expirePendingRequests(): void {
+    const now = Date.now();
+    for (const [id, pending] of this.pendingRequests) {
+      if (now - pending.startedAt < PENDING_REQUEST_TIMEOUT_MS) continue;
+
+      log("ERROR", "Pending request expired", { id, tool: pending.tool });
+      this.pendingRequests.delete(id);
+      this.forgetProgressToken(id);
+      this.droppedRequests.set(id, now);
+      pending.abort.abort();
+      this.respond({
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32001, message: `${pending.tool} got no answer within ${PENDING_REQUEST_TIMEOUT_MS}ms` },
+      });
+    }
+    // Other requests only matter in a batch, which they would hold up
+    for (const { id, method } of this.batches.expired(PENDING_REQUEST_TIMEOUT_MS, now)) {
+      if (this.pendingRequests.has(id)) continue;
+
+      log("ERROR", "Pending request expired", { id, method });
+      this.forgetProgressToken(id);
+      this.toolListRequests.delete(id);
+      this.droppedRequests.set(id, now);
+      this.respond({
+        jsonrpc: "2.0",
+        id,
+        error: { code: -32001, message: `${method} got no answer within ${PENDING_REQUEST_TIMEOUT_MS}ms` },
+      });
+    }
+    for (const [id, droppedAt] of this.droppedRequests) {
+      if (now - droppedAt >= PENDING_REQUEST_TIMEOUT_MS) this.droppedRequests.delete(id);
+    }
+  }
+
+  /**
+   * Handle one line from the client - a message or a batch - and forward what is
+   * left of it upstream.
+   */
+  handleClientLine(line: string): void {
+    this.recording.recorder?.message("client-to-proxy", line);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let message: any;
+    let parsed: any;
     try {
-      message = JSON.parse(line);
+      parsed = JSON.parse(line);
     } catch {
       // Forward non-JSON lines as-is
-      process.stdout.write(line + "\n");
+      this.sendUpstream(line);
       return;
     }
 
-    // Inject aliased tools into tools/list response
-    if (message.result?.tools && Array.isArray(message.result.tools)) {
-      const snapshotTool = message.result.tools.find(
-        (t: { name: string }) => t.name === "browser_snapshot"
+    if (Array.isArray(parsed)) {
+      this.batches.start(parsed);
+      // Forwarded one by one, since MCP servers need not accept batches (dropped in 2025-06-18)
+      for (const message of parsed) {
+        if (this.handleClientMessage(message)) this.sendUpstream(JSON.stringify(message));
+      }
+    } else if (this.handleClientMessage(parsed)) {
+      this.sendUpstream(JSON.stringify(parsed));
+    }
+  }
+
+  /**
+   * Handle one message from the client, rewriting it in place. Returns false if
+   * it was handled here and must not go upstream.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private handleClientMessage(message: any): boolean {
+    if (!message || typeof message !== "object") return true;
+
+    // Responses to our own requests (e.g. sampling) never go upstream
+    if (this.handleClientResponse(message)) return false;
+
+    // Switch to the client's model if it supports sampling
+    if (message.method === "initialize") {
+      const supportsSampling = !!message.params?.capabilities?.sampling;
+      // A replayed session keeps answering from the recording
+      if (!this.recording.replay && shouldUseSampling(process.env, supportsSampling)) {
+        this.summarizer = createProvider({ ...this.providerOptions, kind: "sampling" }, (method, params, signal) =>
+          this.requestFromClient(method, params, signal)
+        );
+      }
+      log("INFO", "Client initialize", {
+        supportsSampling,
+        provider: this.summarizer.name,
+      });
+    }
+
+    // Still forwarded, so the upstream can stop working on the request too
+    if (message.method === "notifications/cancelled" && message.params?.requestId !== undefined) {
+      this.cancelToolCall(message.params.requestId, message.params.reason);
+    }
+
+    // Progress for this request goes to its HTTP stream; any request may ask for it
+    const progressToken = message.params?._meta?.progressToken;
+    if (message.method !== undefined && message.id !== undefined && progressToken !== undefined) {
+      this.progressTokens.set(progressToken, message.id);
+    }
+
+    if (message.method === "tools/list" && message.id !== undefined) {
+      this.toolListRequests.set(message.id, message.params);
+    }
+
+    // Track tool call requests so we know which tool was called
+    if (message.method === "tools/call" && message.id !== undefined) {
+      const originalName = message.params?.name || "";
+      if (originalName === SLIM_STATS_TOOL.name) {
+        this.answerStatsCall(message.id);
+        return false;
+      }
+      if (originalName === SLIM_FETCH_IMAGE_TOOL.name && this.config.images.mode !== "passthrough") {
+        this.answerFetchImageCall(message.id, message.params?.arguments?.handle);
+        return false;
+      }
+      if (originalName === SLIM_FETCH_RESULT_TOOL.name && this.config.overflow.maxResponseSize > 0) {
+        this.answerFetchResultCall(message.id, message.params?.arguments ?? {});
+        return false;
+      }
+      const { focus, detail } = takeInjectedArguments(
+        message.params,
+        this.injectedArguments.get(originalName) ?? []
       );
-      if (snapshotTool) {
+      this.pendingRequests.set(message.id, {
+        tool: originalName,
+        startedAt: Date.now(),
+        abort: new AbortController(),
+        focus,
+        detail,
+      });
+
+      log("INFO", "Tool call", {
+        id: message.id,
+        tool: originalName,
+        params: message.params?.arguments,
+        focus,
+        detail,
+      });
+
+      // Rewrite aliased tool names to their real counterparts
+      const alias = this.config.aliases[originalName];
+      if (alias) {
+        log("DEBUG", "Rewriting aliased tool", {
+          from: originalName,
+          to: alias.tool,
+        });
+        message.params.name = alias.tool;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Process one line from the upstream - a message or a batch. Resolves with the
+   * line for the client, or null if nothing is left of it.
+   */
+  private async processLine(line: string): Promise<string | SequencedLine | null> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let parsed: any;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      // Forward non-JSON lines as-is
+      return line;
+    }
+
+    if (Array.isArray(parsed)) {
+      const processed = await Promise.all(parsed.map((message) => this.processUpstreamMessage(message)));
+      const remaining = this.withBatchedResponses(processed.filter((message) => message !== null));
+      return remaining.length > 0 ? JSON.stringify(remaining) : null;
+    }
+
+    // Looked up before processing, which runs concurrently with the request's response
+    const relatedRequestId = this.relatedRequestId(parsed);
+    const processed = await this.processUpstreamMessage(parsed);
+    if (processed === null) return null;
+    const id = responseId(processed);
+    const batch = id === undefined ? undefined : this.batches.add(id, processed);
+    if (batch === undefined) return { line: JSON.stringify(processed), relatedRequestId };
+    return batch?.length ? JSON.stringify(batch) : null;
+  }
+
+  /**
+   * The client request an upstream notification reports on, found by its progress
+   * token. In HTTP mode it then goes on that request's stream rather than the
+   * standalone one, which the client may not have open.
+   */
+  private relatedRequestId(message: unknown): string | number | undefined {
+    const token = (message as { params?: { progressToken?: unknown } } | null)?.params?.progressToken;
+    if (typeof token !== "string" && typeof token !== "number") return undefined;
+    return this.progressTokens.get(token);
+  }
+
+  /**
+   * Process one message from the upstream, turning failures into error responses.
+   * Returns null if the client must not see it.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async processUpstreamMessage(message: any): Promise<unknown> {
+    try {
+      return await this.processMessage(message);
+    } catch (err) {
+      log("ERROR", "Error processing message", { error: String(err) });
+      // Forward the original message if we can't construct an error response
+      if (message?.id === undefined) return message;
+      return {
+        jsonrpc: "2.0",
+        id: message.id,
+        error: {
+          code: -32000,
+          message: `Summarization failed: ${err instanceof Error ? err.message : String(err)}`,
+        },
+      };
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async processMessage(message: any): Promise<unknown> {
+    if (!message || typeof message !== "object") return message;
+
+    let toolListParams: { cursor?: string } | undefined;
+    if (message.method === undefined && message.id !== undefined) {
+      this.forgetProgressToken(message.id);
+      toolListParams = this.toolListRequests.get(message.id);
+      this.toolListRequests.delete(message.id);
+    }
+
+    // Answers to cancelled or expired tool calls are not wanted any more
+    if (message.method === undefined && message.id !== undefined && this.droppedRequests.delete(message.id)) {
+      log("DEBUG", "Dropping response to cancelled request", { id: message.id });
+      return null;
+    }
+
+    // Inject aliased tools and the proxy's own tools into the first page of a tools/list response
+    if (message.result?.tools && Array.isArray(message.result.tools) && toolListParams?.cursor === undefined) {
+      message.result.tools.push(SLIM_STATS_TOOL);
+      if (this.config.images.mode !== "passthrough") message.result.tools.push(SLIM_FETCH_IMAGE_TOOL);
+      if (this.config.overflow.maxResponseSize > 0) message.result.tools.push(SLIM_FETCH_RESULT_TOOL);
+      for (const [aliasName, alias] of Object.entries(this.config.aliases)) {
+        const targetTool = message.result.tools.find(
+          (t: { name: string }) => t.name === alias.tool
+        );
+        if (!targetTool) continue;
         message.result.tools.push({
-          ...snapshotTool,
-          name: "browser_snapshot_full",
-          description:
-            "Capture full accessibility snapshot without summarization",
+          ...targetTool,
+          name: aliasName,
+          description: alias.description ?? targetTool.description,
           annotations: {
-            ...snapshotTool.annotations,
-            title: "Full page snapshot (unsummarized)",
+            ...targetTool.annotations,
+            title: alias.title ?? targetTool.annotations?.title,
           },
         });
       }
     }
 
+    if (message.result?.tools && Array.isArray(message.result.tools)) {
+
+      // Browser tools take snapshot_detail and summarized ones also focus (Playwright preset only)
+      if (this.config.preset === "playwright") {
+        this.injectedArguments.clear();
+        message.result.tools = message.result.tools.map(
+          (tool: { name: string; inputSchema?: { properties?: Record<string, unknown> } }) => {
+            if (PROXY_TOOL_NAMES.has(tool.name)) return tool;
+            const mode = resolveToolPolicy(this.config, tool.name).mode;
+            const names =
+              mode === "diff" || mode === "summarize"
+                ? [SNAPSHOT_DETAIL_ARGUMENT, FOCUS_ARGUMENT]
+                : [SNAPSHOT_DETAIL_ARGUMENT];
+            const injected: string[] = [];
+            for (const name of names) {
+              const withArgument = withInjectedArgument(tool, name);
+              if (!withArgument) continue;
+              tool = withArgument;
+              injected.push(name);
+            }
+            if (injected.length > 0) this.injectedArguments.set(tool.name, injected);
+            return tool;
+          }
+        );
+      }
+    }
+
     // Check if this is a response to a tool call
     if (message.id !== undefined && this.pendingRequests.has(message.id)) {
-      const toolName = this.pendingRequests.get(message.id)!;
-      this.pendingRequests.delete(message.id);
+      const { tool: toolName, startedAt, abort, focus, detail } = this.pendingRequests.get(message.id)!;
+      const processingStartedAt = Date.now();
+      const originalBytes = Buffer.byteLength(JSON.stringify(message.result ?? message.error ?? null));
+      const recordCall = (error: boolean) =>
+        this.stats.recordToolCall(toolName, {
+          originalBytes,
+          returnedBytes: Buffer.byteLength(JSON.stringify(message.result ?? message.error ?? null)),
+          latencyMs: Date.now() - startedAt,
+          processingMs: Date.now() - processingStartedAt,
+          error,
+        });
 
-      const willSummarize = !SKIP_SUMMARIZE_TOOLS.has(toolName);
+      const willSummarize = resolveCallPolicy(this.config, toolName, detail).mode !== "passthrough";
       log("INFO", "Tool response", {
         id: message.id,
         tool: toolName,
@@ -505,22 +1529,175 @@ class PlaywrightMCPProxy {
 
       // Process the result to summarize snapshots
       if (message.result) {
-        message.result = await processToolResult(toolName, message.result);
+        try {
+          message.result = await this.currentToolCall.run(message.id, () =>
+            processToolResult(toolName, message.result, {
+              config: this.config,
+              history: this.snapshotHistory,
+              provider: this.budget.track(this.stats.trackUsage(this.trackedSummarizer())),
+              budget: this.budget,
+              transformers: this.transformers,
+              signal: abort.signal,
+              focus,
+              detail,
+              summarizeMode: this.summarizeMode,
+              imageStash: this.imageStash,
+              resultStash: this.resultStash,
+            })
+          );
+        } catch (err) {
+          if (!abort.signal.aborted) {
+            this.pendingRequests.delete(message.id);
+            recordCall(true);
+            throw err;
+          }
+        }
+      }
+
+      // Cancelled or expired while the result was being processed
+      if (abort.signal.aborted) {
+        this.droppedRequests.delete(message.id);
+        log("INFO", "Dropping result of cancelled tool call", { id: message.id, tool: toolName });
+        return null;
       }
+      this.pendingRequests.delete(message.id);
+      recordCall(!!message.error || !!message.result?.isError);
 
       // Work around browser_close not killing the Chromium process
-      if (toolName === "browser_close" && !message.error) {
-        this.killBrowserProcesses();
+      if (this.config.preset === "playwright" && toolName === "browser_close" && !message.error) {
+        this.upstream?.killBrowser();
       }
     }
 
-    // Send processed message to Claude Code
-    process.stdout.write(JSON.stringify(message) + "\n");
+    return message;
   }
 }
 
-const proxy = new PlaywrightMCPProxy();
-proxy.start().catch((err) => {
-  console.error("Failed to start Playwright MCP proxy:", err);
-  process.exit(1);
-});
+/**
+ * Serve a single client over stdin/stdout.
+ */
+function serveStdio(
+  config: SlimConfig,
+  summarizeMode: SummarizeMode,
+  proxies: Set<PlaywrightMCPProxy>,
+  newRecording: () => SessionRecording
+): void {
+  const proxy = new PlaywrightMCPProxy(
+    config,
+    {
+      send: (line) => process.stdout.write(line + "\n"),
+      waitForDrain: () => new Promise((resolve) => process.stdout.once("drain", resolve)),
+      onUpstreamExit: (code) => process.exit(code || 0),
+    },
+    newRecording(),
+    summarizeMode
+  );
+  proxies.add(proxy);
+  proxy.start();
+
+  // Read from stdin (Claude Code) and forward to Playwright MCP
+  const stdinReader = createInterface({ input: process.stdin });
+
+  // Clean up child process when stdin closes (parent disconnects)
+  stdinReader.on("close", () => {
+    log("INFO", "stdin closed, shutting down");
+    process.exit(0);
+  });
+
+  stdinReader.on("line", (line) => proxy.handleClientLine(line));
+}
+
+/**
+ * Serve any number of clients over Streamable HTTP, each with its own upstream.
+ */
+async function serveHttp(
+  config: SlimConfig,
+  summarizeMode: SummarizeMode,
+  port: number,
+  proxies: Set<PlaywrightMCPProxy>,
+  newRecording: () => SessionRecording
+): Promise<void> {
+  const server = new SlimHttpServer(config.http, (hooks) => {
+    const proxy = new PlaywrightMCPProxy(
+      config,
+      {
+        send: (line, relatedRequestId) => {
+          // The transport buffers per stream, so the client is never behind here
+          hooks.send(line, relatedRequestId);
+          return true;
+        },
+        waitForDrain: async () => {},
+        onUpstreamExit: () => hooks.end(),
+      },
+      newRecording(),
+      summarizeMode
+    );
+    proxies.add(proxy);
+    proxy.start();
+    return {
+      handleClientLine: (line) => proxy.handleClientLine(line),
+      close: () => {
+        proxies.delete(proxy);
+        proxy.close();
+      },
+    };
+  });
+
+  const boundPort = await server.listen(port);
+  console.error(`playwright-slim-mcp listening on http://${config.http.host}:${boundPort}${config.http.path}`);
+}
+
+/**
+ * Start the proxy on stdio or HTTP as configured. Called by the bin entry (cli.ts).
+ */
+export async function main(): Promise<void> {
+  ensureLogDir();
+
+  const argv = process.argv.slice(2);
+  const { config, path: configPath } = await loadConfig(argv);
+  const httpPort = resolveHttpPort(argv, process.env, config.http.port);
+  const recording = resolveRecordingMode(argv, process.env);
+  const summarizeMode = resolveSummarizeMode(argv, process.env.PLAYWRIGHT_SLIM_MODE);
+  log("INFO", "Starting playwright-slim-mcp proxy", {
+    args: argv,
+    summarizeMode,
+    configPath,
+    transport: httpPort === null ? "stdio" : "http",
+    upstream: config.upstream.url ?? [config.upstream.command, ...config.upstream.args].join(" "),
+    preset: config.preset,
+    recording,
+    provider: defaultProvider.name,
+    model: config.model ?? defaultProvider.model,
+    logFile: LOG_FILE,
+    pid: process.pid,
+  });
+
+  const proxies = new Set<PlaywrightMCPProxy>();
+  let sessions = 0;
+  const newRecording = (): SessionRecording => {
+    if (!recording) return {};
+    const session = ++sessions;
+    return recording.mode === "record"
+      ? { recorder: new SessionRecorder(recording.file, session) }
+      : { replay: loadRecording(recording.file, session) };
+  };
+
+  for (const signal of ["SIGINT", "SIGTERM", "SIGHUP"] as const) {
+    process.on(signal, () => {
+      log("INFO", `Received ${signal}, shutting down`);
+      process.exit(0);
+    });
+  }
+
+  // Catch-all for any exit path
+  process.on("exit", () => {
+    summaryCache?.flush();
+    for (const proxy of proxies) proxy.close();
+  });
+
+  if (httpPort === null) {
+    serveStdio(config, summarizeMode, proxies, newRecording);
+  } else {
+    await serveHttp(config, summarizeMode, httpPort, proxies, newRecording);
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Library entry point, the package's main export. Unlike index.ts it has no side
+ * effects on import: nothing is spawned and no provider or cache is created.
+ */
+
+export type { ParsedSnapshot } from "./response.js";
+export { parsePlaywrightResponse } from "./response.js";
+export type { SnapshotNode } from "./ast.js";
+export { parseSnapshotYaml, serializeSnapshot, formatNodeLine, formatNodeKey, walkSnapshot, findNodes } from "./ast.js";
+export { EVENTS_PATTERN, summarizeEvents } from "./events.js";
+export { ConfigError } from "./config.js";
+export type {
+  SlimConfig,
+  ToolPolicy,
+  ToolMode,
+  ToolAlias,
+  RefValidationMode,
+  EventsPolicy,
+  NetworkPolicy,
+  BudgetPolicy,
+  FailurePolicy,
+  ImagePolicy,
+  OverflowPolicy,
+  HttpPolicy,
+  UpstreamPolicy,
+  Preset,
+} from "./config.js";
+export type { SummarizerProvider, SummarizeRequest, SummarizeResult } from "./providers.js";
+export type { StatsReport } from "./stats.js";
+export type { TextTransformer, TransformResult } from "./transformers.js";
@@ -0,0 +1,37 @@
+import { appendFileSync, mkdirSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+
+// ES module equivalents of __filename and __dirname
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// Logger setup - logs to logs/ directory relative to package root
+// Set DEBUG=1 or PLAYWRIGHT_SLIM_DEBUG=1 to enable file logging
+const DEBUG_ENABLED = process.env.DEBUG === "1" || process.env.PLAYWRIGHT_SLIM_DEBUG === "1";
+const LOG_DIR = join(__dirname, "..", "logs");
+export const LOG_FILE = join(LOG_DIR, `mcp-${new Date().toISOString().replace(/[:.]/g, "-")}.log`);
+
+export function ensureLogDir(): void {
+  if (!DEBUG_ENABLED) return;
+  try {
+    mkdirSync(LOG_DIR, { recursive: true });
+  } catch {
+    // Ignore if already exists
+  }
+}
+
+export function log(level: "INFO" | "ERROR" | "DEBUG", message: string, data?: unknown): void {
+  if (!DEBUG_ENABLED) return;
+
+  const timestamp = new Date().toISOString();
+  const logLine = data
+    ? `[${timestamp}] [${level}] ${message} ${JSON.stringify(data)}\n`
+    : `[${timestamp}] [${level}] ${message}\n`;
+
+  try {
+    appendFileSync(LOG_FILE, logLine);
+  } catch {
+    // Silently ignore logging errors to not break MCP communication
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { parseNetworkRequest, summarizeNetworkRequests } from "./network.js";
+
+const policy = { showStaticAssets: false, maxRequests: 3 };
+
+const LISTING = `### Result
+[GET] https://shop.test/ => [200] OK
+[GET] https://shop.test/app.js => [200] OK
+[GET] https://shop.test/style.css?v=2 => [200] OK
+[GET] https://cdn.test/logo.png => [200] OK
+[GET] https://cdn.test/font.woff2 => [200] OK
+[GET] https://api.shop.test/items => [200] OK
+[POST] https://api.shop.test/cart => [500] Internal Server Error
+[GET] https://api.shop.test/user => [304] Not Modified
+[GET] https://api.shop.test/prices => [200] OK
+[GET] https://api.shop.test/stock => [200] OK
+[GET] https://cdn.test/missing.png => [404] Not Found`;
+
+describe("parseNetworkRequest", () => {
+  it("parses request lines", () => {
+    expect(parseNetworkRequest("[POST] https://a.test/x => [500] Internal Server Error")).toEqual({
+      method: "POST",
+      url: "https://a.test/x",
+      status: "500",
+      statusText: "Internal Server Error",
+    });
+    expect(parseNetworkRequest("[GET] https://a.test/slow")).toMatchObject({ status: null });
+    expect(parseNetworkRequest("### Result")).toBeNull();
+  });
+
+  it("parses numbered request lines", () => {
+    expect(parseNetworkRequest("12. [GET] https://a.test/x => [FAILED] net::ERR_ABORTED")).toEqual({
+      index: 12,
+      method: "GET",
+      url: "https://a.test/x",
+      status: "FAILED",
+      statusText: "net::ERR_ABORTED",
+    });
+  });
+});
+
+describe("summarizeNetworkRequests", () => {
+  it("lists failures first, groups the rest and hides static assets", () => {
+    expect(summarizeNetworkRequests(LISTING, policy)).toBe(`### Result
+Failed requests (2):
+- [POST] https://api.shop.test/cart => [500] Internal Server Error
+- [GET] https://cdn.test/missing.png => [404] Not Found
+https://shop.test:
+- [200] GET /
+https://api.shop.test:
+- [200] GET /items, GET /prices
+[hidden 4 static asset requests: 1 JS, 1 CSS, 1 images, 1 fonts]
+[omitted 2 more requests]`);
+  });
+
+  it("caps failed requests with a count of the rest", () => {
+    const listing = ["### Result", ...[1, 2, 3, 4, 5].map((n) => `[GET] https://a.test/${n} => [500] Error`)].join("\n");
+    expect(summarizeNetworkRequests(listing, policy)).toBe(`### Result
+Failed requests (5):
+- [GET] https://a.test/1 => [500] Error
+- [GET] https://a.test/2 => [500] Error
+- [GET] https://a.test/3 => [500] Error
+[omitted 2 more failed requests]`);
+  });
+
+  it("lists static assets when configured", () => {
+    const result = summarizeNetworkRequests(LISTING, { showStaticAssets: true, maxRequests: 50 });
+    expect(result).toContain("- [200] GET /, GET /app.js, GET /style.css?v=2");
+    expect(result).toContain("https://cdn.test:\n- [200] GET /logo.png, GET /font.woff2");
+    expect(result).not.toContain("hidden");
+  });
+
+  it("keeps the numbers of current Playwright MCP output", () => {
+    // browser_network_requests as printed by @playwright/mcp 0.0.83
+    const listing = `### Result
+1. [GET] https://shop.test/ => [200] OK
+4. [GET] https://api.shop.test/items => [200] OK
+5. [POST] https://api.shop.test/cart => [500] Internal Server Error
+6. [GET] https://api.shop.test/user => [200] OK
+7. [GET] https://tracker.test/pixel => [FAILED] net::ERR_BLOCKED_BY_CLIENT
+8. [GET] https://api.shop.test/prices
+
+Note: 14 static requests not shown, run with "static" option to see them.`;
+    expect(summarizeNetworkRequests(listing, { showStaticAssets: false, maxRequests: 50 })).toBe(`### Result
+Failed requests (2):
+- #5 [POST] https://api.shop.test/cart => [500] Internal Server Error
+- #7 [GET] https://tracker.test/pixel => [FAILED] net::ERR_BLOCKED_BY_CLIENT
+https://shop.test:
+- [200] #1 GET /
+https://api.shop.test:
+- [200] #4 GET /items, #6 GET /user
+- [pending] #8 GET /prices
+
+Note: 14 static requests not shown, run with "static" option to see them.`);
+  });
+
+  it("leaves other text unchanged", () => {
+    expect(summarizeNetworkRequests("### Result\nNo requests", policy)).toBe("### Result\nNo requests");
+  });
+});
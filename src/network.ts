@@ -0,0 +1,190 @@
+/**
+ * Compact rendering of browser_network_requests output.
+ *
+ * Playwright MCP lists every request of the page, one per line, numbered in
+ * current versions:
+ *
+ *   4. [GET] https://example.com/api/items => [200] OK
+ *
+ * Failed requests are listed first in full. The numbers are kept as "#4", since
+ * browser_network_request takes them to show a request's details. The rest are
+ * grouped by origin and status, and static assets are hidden unless configured
+ * otherwise. Both parts are capped with a count of what was left out.
+ */
+
+import { defaultConfig, NetworkPolicy } from "./config.js";
+import { log } from "./logger.js";
+
+const REQUEST_PATTERN = /^(?:- |(\d+)\.\s+)?\[([A-Z]+)\] (\S+)(?: => \[([^\]]+)\](?: (.*))?)?$/;
+
+// Asset kind by file extension
+const STATIC_ASSET_KINDS: Record<string, string> = {
+  png: "images",
+  jpg: "images",
+  jpeg: "images",
+  gif: "images",
+  svg: "images",
+  webp: "images",
+  avif: "images",
+  ico: "images",
+  woff: "fonts",
+  woff2: "fonts",
+  ttf: "fonts",
+  otf: "fonts",
+  eot: "fonts",
+  css: "CSS",
+  js: "JS",
+  mjs: "JS",
+  map: "JS",
+};
+
+// Longest path shown for one request
+const MAX_PATH_LENGTH = 120;
+
+export interface NetworkRequest {
+  /** The request's number in the listing, if numbered */
+  index?: number;
+  method: string;
+  url: string;
+  /** HTTP status code, "FAILED" or similar for network errors, null while pending */
+  status: string | null;
+  statusText: string;
+}
+
+export function parseNetworkRequest(line: string): NetworkRequest | null {
+  const match = line.match(REQUEST_PATTERN);
+  if (!match) return null;
+  const [, index, method, url, status, statusText] = match;
+  const request: NetworkRequest = { method, url, status: status ?? null, statusText: statusText ?? "" };
+  if (index !== undefined) request.index = Number(index);
+  return request;
+}
+
+export function isFailedRequest(request: NetworkRequest): boolean {
+  if (request.status === null) return false;
+  const code = Number(request.status);
+  return Number.isNaN(code) || code >= 400;
+}
+
+function staticAssetKind(url: string): string | null {
+  try {
+    const extension = new URL(url).pathname.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase();
+    return extension ? (STATIC_ASSET_KINDS[extension] ?? null) : null;
+  } catch {
+    return null;
+  }
+}
+
+function splitUrl(url: string): { origin: string; path: string } {
+  try {
+    const parsed = new URL(url);
+    const path = `${parsed.pathname}${parsed.search}`;
+    return {
+      origin: parsed.origin,
+      path: path.length > MAX_PATH_LENGTH ? `${path.slice(0, MAX_PATH_LENGTH)}...` : path,
+    };
+  } catch {
+    // data: URLs and the like
+    return { origin: "other", path: url.slice(0, MAX_PATH_LENGTH) };
+  }
+}
+
+function formatIndex(request: NetworkRequest): string {
+  return request.index === undefined ? "" : `#${request.index} `;
+}
+
+function formatRequest(request: NetworkRequest): string {
+  const status = request.status === null ? "pending" : `[${request.status}] ${request.statusText}`.trimEnd();
+  return `- ${formatIndex(request)}[${request.method}] ${request.url} => ${status}`;
+}
+
+/**
+ * Render a list of requests compactly.
+ */
+export function formatNetworkRequests(requests: NetworkRequest[], policy: NetworkPolicy): string[] {
+  const failed = requests.filter(isFailedRequest);
+  const hiddenAssets = new Map<string, number>();
+  // origin -> status -> "METHOD /path" entries
+  const byOrigin = new Map<string, Map<string, string[]>>();
+
+  for (const request of requests) {
+    if (isFailedRequest(request)) continue;
+
+    const assetKind = staticAssetKind(request.url);
+    if (assetKind && !policy.showStaticAssets) {
+      hiddenAssets.set(assetKind, (hiddenAssets.get(assetKind) ?? 0) + 1);
+      continue;
+    }
+
+    const { origin, path } = splitUrl(request.url);
+    const statuses = byOrigin.get(origin) ?? new Map<string, string[]>();
+    byOrigin.set(origin, statuses);
+    const status = request.status ?? "pending";
+    statuses.set(status, [...(statuses.get(status) ?? []), `${formatIndex(request)}${request.method} ${path}`]);
+  }
+
+  const lines: string[] = [];
+  if (failed.length > 0) {
+    const shown = failed.slice(0, policy.maxRequests);
+    lines.push(`Failed requests (${failed.length}):`, ...shown.map(formatRequest));
+    if (failed.length > shown.length) {
+      lines.push(`[omitted ${failed.length - shown.length} more failed requests]`);
+    }
+  }
+
+  let listed = 0;
+  let omitted = 0;
+  for (const [origin, statuses] of byOrigin) {
+    const groupLines: string[] = [];
+    for (const [status, entries] of statuses) {
+      const shown = entries.slice(0, Math.max(policy.maxRequests - listed, 0));
+      listed += shown.length;
+      omitted += entries.length - shown.length;
+      if (shown.length > 0) groupLines.push(`- [${status}] ${shown.join(", ")}`);
+    }
+    if (groupLines.length > 0) lines.push(`${origin}:`, ...groupLines);
+  }
+
+  if (hiddenAssets.size > 0) {
+    const total = [...hiddenAssets.values()].reduce((sum, count) => sum + count, 0);
+    const kinds = [...hiddenAssets].map(([kind, count]) => `${count} ${kind}`).join(", ");
+    lines.push(`[hidden ${total} static asset requests: ${kinds}]`);
+  }
+  if (omitted > 0) {
+    lines.push(`[omitted ${omitted} more requests]`);
+  }
+  return lines;
+}
+
+/**
+ * Replace the request lines of a browser_network_requests response with a
+ * compact listing. Other lines are kept where they are.
+ */
+export function summarizeNetworkRequests(text: string, policy: NetworkPolicy = defaultConfig().network): string {
+  const lines = text.split("\n");
+  const requests: NetworkRequest[] = [];
+  const outputLines: string[] = [];
+  let listingIndex = -1;
+
+  for (const line of lines) {
+    const request = parseNetworkRequest(line);
+    if (!request) {
+      outputLines.push(line);
+      continue;
+    }
+    if (listingIndex === -1) listingIndex = outputLines.length;
+    requests.push(request);
+  }
+  if (requests.length === 0) return text;
+
+  outputLines.splice(listingIndex, 0, ...formatNetworkRequests(requests, policy));
+  const result = outputLines.join("\n");
+  if (result.length >= text.length) return text;
+
+  log("DEBUG", "Summarized network requests", {
+    requests: requests.length,
+    originalSize: text.length,
+    summarizedSize: result.length,
+  });
+  return result;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { fetchStashedResult, overflowPreview } from "./overflow.js";
+
+const lines = Array.from({ length: 1000 }, (_, i) => `line ${i}: ${"x".repeat(40)}`).join("\n");
+
+describe("overflowPreview", () => {
+  it("keeps whole lines from the start and end and says how to read the rest", () => {
+    const preview = overflowPreview(lines, "result-1", 400);
+
+    expect(preview).toMatch(/^\[playwright-slim: output of 50,889 chars shortened/);
+    expect(preview).toContain('slim_fetch_result with handle "result-1"');
+    expect(preview).toContain("\nline 0: x");
+    expect(preview).toMatch(/chars omitted\] \.\.\.\nline 999: x+$/);
+    expect(preview.length).toBeLessThan(700);
+  });
+
+  it("notes when the output could not be kept", () => {
+    expect(overflowPreview(lines, null, 400)).toContain("the rest was too large to keep");
+  });
+});
+
+describe("fetchStashedResult", () => {
+  it("pages through the output, at most maxSize chars at a time", () => {
+    const page = fetchStashedResult(lines, "result-1", { offset: 100, length: 50000 }, 1000);
+    expect(page.text).toMatch(/^### result-1: chars 100-1100 of 50889, next offset 1100\n/);
+    expect(page.text.length).toBeLessThan(1100);
+
+    const last = fetchStashedResult(lines, "result-1", { offset: 50800 }, 1000);
+    expect(last.text).toMatch(/chars 50800-50889 of 50889, end of output\n/);
+  });
+
+  it("greps lines with their line numbers and offsets", () => {
+    const result = fetchStashedResult(lines, "result-1", { pattern: "^LINE 99[89]", ignoreCase: true }, 1000);
+    expect(result.text).toBe(
+      `### result-1: lines matching /^LINE 99[89]/i\n` +
+        `line 999, offset ${lines.indexOf("line 998")}: line 998: ${"x".repeat(40)}\n` +
+        `line 1000, offset ${lines.indexOf("line 999")}: line 999: ${"x".repeat(40)}`
+    );
+  });
+
+  it("shows only the part of a long line around a match", () => {
+    const json = JSON.stringify({ items: Array.from({ length: 500 }, (_, i) => ({ id: i })), total: 500 });
+    const result = fetchStashedResult(json, "result-2", { pattern: '"total"' }, 1000);
+    expect(result.text).toMatch(/^### result-2: lines matching \/"total"\/\nline 1, offset \d+: \.\.\.[^\n]{100}"total":500}$/);
+  });
+
+  it("stops at the size limit and reports bad arguments", () => {
+    expect(fetchStashedResult(lines, "r", { pattern: "line" }, 500).text).toMatch(/\[stopped after \d+ matches\]$/);
+    expect(fetchStashedResult(lines, "r", { pattern: "nothing here" }, 500).text).toBe(
+      "### r: no lines match /nothing here/"
+    );
+    expect(fetchStashedResult(lines, "r", { pattern: "(" }, 500)).toMatchObject({ isError: true });
+    expect(fetchStashedResult(lines, "r", { offset: -1 }, 500)).toMatchObject({ isError: true });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Oversized tool output - a huge browser_evaluate result, thousands of console
+ * messages - is moved into the stash and replaced with a preview of its start and
+ * end. slim_fetch_result then pages through it or greps it by handle.
+ */
+
+/**
+ * The locally answered tool that reads stashed output.
+ * Injected into tools/list unless the overflow cap is off.
+ */
+export const SLIM_FETCH_RESULT_TOOL = {
+  name: "slim_fetch_result",
+  description:
+    "Read tool output that playwright-slim-mcp stashed because it was too large, by the handle " +
+    "given in its preview. Returns `length` chars from `offset`, or with `pattern` the lines " +
+    "matching that regular expression, with their offsets",
+  inputSchema: {
+    type: "object",
+    properties: {
+      handle: { type: "string", description: 'The stash handle, e.g. "result-1"' },
+      offset: { type: "integer", minimum: 0, description: "First char to return (default 0)" },
+      length: { type: "integer", minimum: 1, description: "Number of chars to return" },
+      pattern: { type: "string", description: "Regular expression to search for instead of paging" },
+      ignoreCase: { type: "boolean", description: "Match `pattern` case-insensitively" },
+    },
+    required: ["handle"],
+  },
+  annotations: { title: "Stashed output", readOnlyHint: true },
+};
+
+// Share of the preview given to the start of the output; the rest shows its end
+const PREVIEW_HEAD_RATIO = 0.75;
+
+// Chars shown around a match on a long line, e.g. minified JSON
+const MATCH_CONTEXT = 100;
+
+const MAX_MATCHES = 100;
+
+function formatCount(count: number): string {
+  return count.toLocaleString("en-US");
+}
+
+/**
+ * The first and last chars of `text`, cut at line breaks where there are any, with
+ * a note on how to read the rest.
+ */
+export function overflowPreview(text: string, handle: string | null, previewSize: number): string {
+  let head = text.slice(0, Math.floor(previewSize * PREVIEW_HEAD_RATIO));
+  let tail = text.slice(text.length - (previewSize - head.length));
+  const headBreak = head.lastIndexOf("\n");
+  if (headBreak > 0) head = head.slice(0, headBreak);
+  const tailBreak = tail.indexOf("\n");
+  if (tailBreak !== -1 && tailBreak < tail.length - 1) tail = tail.slice(tailBreak + 1);
+
+  const omitted = text.length - head.length - tail.length;
+  const how = handle
+    ? `call ${SLIM_FETCH_RESULT_TOOL.name} with handle "${handle}" and an offset and length to page ` +
+      "through the rest, or a pattern to search it"
+    : "the rest was too large to keep";
+  return `[playwright-slim: output of ${formatCount(text.length)} chars shortened to its start and end; ${how}]
+${head}
+... [${formatCount(omitted)} chars omitted] ...
+${tail}`;
+}
+
+export interface FetchArguments {
+  offset?: unknown;
+  length?: unknown;
+  pattern?: unknown;
+  ignoreCase?: unknown;
+}
+
+/**
+ * Answer a slim_fetch_result call on stashed `text`: a page of it, or the lines
+ * matching a pattern. The reply is kept within `maxSize` chars.
+ */
+export function fetchStashedResult(
+  text: string,
+  handle: string,
+  args: FetchArguments,
+  maxSize: number
+): { text: string; isError?: boolean } {
+  if (args.pattern !== undefined) {
+    if (typeof args.pattern !== "string" || args.pattern === "") {
+      return { text: "pattern: expected a non-empty string", isError: true };
+    }
+    let regex: RegExp;
+    try {
+      regex = new RegExp(args.pattern, args.ignoreCase === true ? "i" : "");
+    } catch (err) {
+      return { text: `pattern: ${err instanceof Error ? err.message : String(err)}`, isError: true };
+    }
+    return { text: grepText(text, handle, regex, maxSize) };
+  }
+
+  const offset = args.offset ?? 0;
+  const length = args.length ?? maxSize;
+  if (typeof offset !== "number" || !Number.isInteger(offset) || offset < 0) {
+    return { text: "offset: expected a non-negative integer", isError: true };
+  }
+  if (typeof length !== "number" || !Number.isInteger(length) || length < 1) {
+    return { text: "length: expected a positive integer", isError: true };
+  }
+
+  const end = Math.min(text.length, offset + Math.min(length, maxSize));
+  const next = end < text.length ? `, next offset ${end}` : ", end of output";
+  return {
+    text: `### ${handle}: chars ${offset}-${end} of ${text.length}${next}\n${text.slice(offset, end)}`,
+  };
+}
+
+function grepText(text: string, handle: string, regex: RegExp, maxSize: number): string {
+  const lines: string[] = [];
+  let size = 0;
+  let matches = 0;
+  let lineStart = 0;
+  let lineNumber = 1;
+
+  while (lineStart <= text.length) {
+    const newline = text.indexOf("\n", lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const line = text.slice(lineStart, lineEnd);
+    const match = regex.exec(line);
+    if (match) {
+      matches++;
+      const from = Math.max(0, match.index - MATCH_CONTEXT);
+      const to = Math.min(line.length, match.index + match[0].length + MATCH_CONTEXT);
+      const excerpt = `${from > 0 ? "..." : ""}${line.slice(from, to)}${to < line.length ? "..." : ""}`;
+      const entry = `line ${lineNumber}, offset ${lineStart + match.index}: ${excerpt}`;
+      if (matches > MAX_MATCHES || size + entry.length > maxSize) {
+        lines.push(`[stopped after ${matches - 1} matches]`);
+        break;
+      }
+      lines.push(entry);
+      size += entry.length + 1;
+    }
+    lineStart = lineEnd + 1;
+    lineNumber++;
+  }
+
+  if (lines.length === 0) return `### ${handle}: no lines match ${regex}`;
+  return `### ${handle}: lines matching ${regex}\n${lines.join("\n")}`;
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createProvider,
+  providerOptionsFromEnv,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  OllamaProvider,
+  SamplingProvider,
+  withAbortSignal,
+} from "./providers.js";
+
+function mockFetch(body: unknown, status = 200) {
+  const fetchMock = vi.fn().mockResolvedValue(
+    new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json" } })
+  );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("providerOptionsFromEnv", () => {
+  it("defaults to anthropic", () => {
+    expect(providerOptionsFromEnv({}).kind).toBe("anthropic");
+  });
+
+  it("falls back to OPENAI_API_KEY", () => {
+    const options = providerOptionsFromEnv({ PLAYWRIGHT_SLIM_PROVIDER: "openai", OPENAI_API_KEY: "sk-test" });
+    expect(options).toMatchObject({ kind: "openai", apiKey: "sk-test" });
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => providerOptionsFromEnv({ PLAYWRIGHT_SLIM_PROVIDER: "bard" })).toThrow(/Invalid summarizer provider/);
+  });
+});
+
+describe("createProvider", () => {
+  it("applies per-provider default models", () => {
+    expect(createProvider({ kind: "anthropic" })).toBeInstanceOf(AnthropicProvider);
+    expect(createProvider({ kind: "openai" }).model).toBe("gpt-4o-mini");
+    expect(createProvider({ kind: "ollama", model: "qwen2.5" }).model).toBe("qwen2.5");
+  });
+});
+
+describe("OpenAICompatibleProvider", () => {
+  it("posts to chat/completions and maps usage", async () => {
+    const fetchMock = mockFetch({
+      choices: [{ message: { content: "Summary" } }],
+      usage: { prompt_tokens: 100, completion_tokens: 10 },
+    });
+    const provider = new OpenAICompatibleProvider("local-model", "http://llm.internal/v1/", "secret");
+
+    const result = await provider.summarize({ prompt: "hello", maxTokens: 50 });
+
+    expect(result).toEqual({ text: "Summary", usage: { inputTokens: 100, outputTokens: 10 } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://llm.internal/v1/chat/completions");
+    expect(init.headers.authorization).toBe("Bearer secret");
+    expect(JSON.parse(init.body)).toMatchObject({ model: "local-model", max_tokens: 50 });
+  });
+
+  it("sends an image as a data URL", async () => {
+    const fetchMock = mockFetch({ choices: [{ message: { content: "A login form" } }] });
+    const provider = new OpenAICompatibleProvider("vision-model", "http://llm.internal/v1");
+
+    await provider.summarize({ prompt: "describe", maxTokens: 50, image: { data: "aGk=", mimeType: "image/png" } });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).messages[0].content).toEqual([
+      { type: "text", text: "describe" },
+      { type: "image_url", image_url: { url: "data:image/png;base64,aGk=" } },
+    ]);
+  });
+
+  it("throws on HTTP errors", async () => {
+    mockFetch({ error: "nope" }, 500);
+    const provider = new OpenAICompatibleProvider("m", "http://llm.internal/v1");
+    await expect(provider.summarize({ prompt: "x", maxTokens: 1 })).rejects.toThrow(/HTTP 500/);
+  });
+});
+
+describe("OllamaProvider", () => {
+  it("posts a non-streaming chat request", async () => {
+    const fetchMock = mockFetch({ message: { content: "Local summary" }, prompt_eval_count: 80, eval_count: 5 });
+    const provider = new OllamaProvider("llama3.1", "http://localhost:11434");
+
+    const result = await provider.summarize({ prompt: "hello", maxTokens: 50 });
+
+    expect(result).toEqual({ text: "Local summary", usage: { inputTokens: 80, outputTokens: 5 } });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://localhost:11434/api/chat");
+    expect(JSON.parse(init.body)).toMatchObject({ stream: false, options: { num_predict: 50 } });
+  });
+
+  it("passes images alongside the prompt", async () => {
+    const fetchMock = mockFetch({ message: { content: "A login form" } });
+    const provider = new OllamaProvider("llava", "http://localhost:11434");
+
+    await provider.summarize({ prompt: "describe", maxTokens: 50, image: { data: "aGk=", mimeType: "image/png" } });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).messages).toEqual([
+      { role: "user", content: "describe", images: ["aGk="] },
+    ]);
+  });
+
+  it("throws when the reply has no text", async () => {
+    mockFetch({ message: { content: "" } });
+    const provider = new OllamaProvider("llama3.1", "http://localhost:11434");
+    await expect(provider.summarize({ prompt: "x", maxTokens: 1 })).rejects.toThrow(/no text content/);
+  });
+});
+
+describe("SamplingProvider", () => {
+  it("sends sampling/createMessage to the client", async () => {
+    const requestFromClient = vi.fn().mockResolvedValue({
+      role: "assistant",
+      content: { type: "text", text: "Client summary" },
+      model: "claude-sonnet",
+    });
+    const provider = new SamplingProvider("claude-haiku-4-5", requestFromClient);
+
+    const result = await provider.summarize({ prompt: "hello", maxTokens: 50 });
+
+    expect(result).toEqual({ text: "Client summary" });
+    expect(requestFromClient).toHaveBeenCalledWith(
+      "sampling/createMessage",
+      {
+        messages: [{ role: "user", content: { type: "text", text: "hello" } }],
+        maxTokens: 50,
+        includeContext: "none",
+        modelPreferences: expect.objectContaining({ hints: [{ name: "claude-haiku-4-5" }] }),
+      },
+      undefined
+    );
+  });
+
+  it("sends an image as its own message before the prompt", async () => {
+    const requestFromClient = vi.fn().mockResolvedValue({ content: { type: "text", text: "A login form" } });
+    const provider = new SamplingProvider("m", requestFromClient);
+
+    await provider.summarize({ prompt: "describe", maxTokens: 50, image: { data: "aGk=", mimeType: "image/jpeg" } });
+
+    expect(requestFromClient.mock.calls[0][1].messages).toEqual([
+      { role: "user", content: { type: "image", data: "aGk=", mimeType: "image/jpeg" } },
+      { role: "user", content: { type: "text", text: "describe" } },
+    ]);
+  });
+
+  it("throws when the client replies with non-text content", async () => {
+    const provider = new SamplingProvider("m", async () => ({ content: { type: "image", data: "..." } }));
+    await expect(provider.summarize({ prompt: "x", maxTokens: 1 })).rejects.toThrow(/no text content/);
+  });
+
+  it("fails clearly when created without a client", async () => {
+    const provider = createProvider({ kind: "sampling" });
+    await expect(provider.summarize({ prompt: "x", maxTokens: 1 })).rejects.toThrow(/No MCP client/);
+  });
+});
+
+describe("withAbortSignal", () => {
+  it("passes the signal to every request, also after withModel", async () => {
+    const fetchMock = mockFetch({ message: { content: "Local summary" } });
+    const controller = new AbortController();
+    const provider = withAbortSignal(new OllamaProvider("llama3.1", "http://localhost:11434"), controller.signal);
+
+    await provider.withModel("qwen2.5").summarize({ prompt: "hello", maxTokens: 50 });
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.signal).toBe(controller.signal);
+    expect(JSON.parse(init.body).model).toBe("qwen2.5");
+  });
+
+  it("hands the signal to the client for sampling", async () => {
+    const requestFromClient = vi.fn().mockResolvedValue({ content: { type: "text", text: "ok" } });
+    const controller = new AbortController();
+    await withAbortSignal(new SamplingProvider("m", requestFromClient), controller.signal).summarize({
+      prompt: "x",
+      maxTokens: 1,
+    });
+    expect(requestFromClient).toHaveBeenCalledWith("sampling/createMessage", expect.anything(), controller.signal);
+  });
+});
@@ -0,0 +1,360 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { log } from "./logger.js";
+
+/**
+ * A single summarization request - one user prompt, one text reply.
+ */
+export interface SummarizeRequest {
+  prompt: string;
+  maxTokens: number;
+  /** An image the prompt is about; needs a vision-capable model */
+  image?: { data: string; mimeType: string };
+  /** Aborts the request, e.g. when the client cancels the tool call */
+  signal?: AbortSignal;
+}
+
+export interface SummarizeResult {
+  text: string;
+  /** Token usage as reported by the backend, if it reports any */
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+/**
+ * A backend that turns a summarization prompt into text.
+ */
+export interface SummarizerProvider {
+  /** Human readable backend name, used in logs and error messages */
+  readonly name: string;
+  readonly model: string;
+  summarize(request: SummarizeRequest): Promise<SummarizeResult>;
+  /** The same backend with a different model */
+  withModel(model: string): SummarizerProvider;
+}
+
+export type ProviderKind = "anthropic" | "openai" | "ollama" | "sampling";
+
+const DEFAULT_MODELS: Record<ProviderKind, string> = {
+  anthropic: "claude-haiku-4-5",
+  openai: "gpt-4o-mini",
+  ollama: "llama3.1",
+  // Only a hint - the client picks the model it actually samples with
+  sampling: "claude-haiku-4-5",
+};
+
+const DEFAULT_BASE_URLS: Record<"openai" | "ollama", string> = {
+  openai: "https://api.openai.com/v1",
+  ollama: "http://localhost:11434",
+};
+
+/**
+ * Anthropic Messages API. Reads ANTHROPIC_API_KEY from the environment.
+ */
+export class AnthropicProvider implements SummarizerProvider {
+  readonly name = "Anthropic";
+  private client: Anthropic | null = null;
+
+  constructor(readonly model: string) {}
+
+  withModel(model: string): AnthropicProvider {
+    return new AnthropicProvider(model);
+  }
+
+  async summarize({ prompt, maxTokens, signal, image }: SummarizeRequest): Promise<SummarizeResult> {
+    // Created lazily so a missing key only matters once summarization is needed
+    this.client ??= new Anthropic();
+
+    const content: Anthropic.MessageParam["content"] = image
+      ? [
+          {
+            type: "image",
+            source: {
+              type: "base64",
+              media_type: image.mimeType as Anthropic.Base64ImageSource["media_type"],
+              data: image.data,
+            },
+          },
+          { type: "text", text: prompt },
+        ]
+      : prompt;
+    const message = await this.client.messages.create(
+      {
+        model: this.model,
+        max_tokens: maxTokens,
+        messages: [{ role: "user", content }],
+      },
+      { signal }
+    );
+
+    const textBlock = message.content.find((block) => block.type === "text");
+    if (!textBlock || textBlock.type !== "text") {
+      log("ERROR", "No text in Anthropic response", { content: message.content });
+      throw new Error("Anthropic API returned no text content");
+    }
+
+    return {
+      text: textBlock.text,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+      },
+    };
+  }
+}
+
+/**
+ * A backend answered with a non-2xx status.
+ */
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number
+  ) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+async function postJson(
+  providerName: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<unknown> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => "");
+    throw new ProviderHttpError(
+      `${providerName} request failed with HTTP ${response.status}: ${detail.slice(0, 500)}`,
+      response.status
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Any server implementing the OpenAI chat-completions API
+ * (OpenAI, vLLM, LM Studio, LiteLLM, ...).
+ */
+export class OpenAICompatibleProvider implements SummarizerProvider {
+  readonly name = "OpenAI-compatible";
+
+  constructor(
+    readonly model: string,
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  withModel(model: string): OpenAICompatibleProvider {
+    return new OpenAICompatibleProvider(model, this.baseUrl, this.apiKey);
+  }
+
+  async summarize({ prompt, maxTokens, signal, image }: SummarizeRequest): Promise<SummarizeResult> {
+    const headers: Record<string, string> = this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {};
+    const content = image
+      ? [
+          { type: "text", text: prompt },
+          { type: "image_url", image_url: { url: `data:${image.mimeType};base64,${image.data}` } },
+        ]
+      : prompt;
+    const response = (await postJson(
+      this.name,
+      `${this.baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        model: this.model,
+        max_tokens: maxTokens,
+        messages: [{ role: "user", content }],
+      },
+      headers,
+      signal
+    )) as {
+      choices?: { message?: { content?: string | null } }[];
+      usage?: { prompt_tokens: number; completion_tokens: number };
+    };
+
+    const text = response.choices?.[0]?.message?.content;
+    if (!text) {
+      log("ERROR", "No text in chat-completions response", { response });
+      throw new Error("OpenAI-compatible API returned no text content");
+    }
+
+    return {
+      text,
+      usage: response.usage && {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+      },
+    };
+  }
+}
+
+/**
+ * A local Ollama-style server (POST /api/chat, non-streaming).
+ */
+export class OllamaProvider implements SummarizerProvider {
+  readonly name = "Ollama";
+
+  constructor(
+    readonly model: string,
+    private baseUrl: string
+  ) {}
+
+  withModel(model: string): OllamaProvider {
+    return new OllamaProvider(model, this.baseUrl);
+  }
+
+  async summarize({ prompt, maxTokens, signal, image }: SummarizeRequest): Promise<SummarizeResult> {
+    const response = (await postJson(
+      this.name,
+      `${this.baseUrl.replace(/\/$/, "")}/api/chat`,
+      {
+        model: this.model,
+        stream: false,
+        options: { num_predict: maxTokens },
+        messages: [{ role: "user", content: prompt, ...(image && { images: [image.data] }) }],
+      },
+      {},
+      signal
+    )) as {
+      message?: { content?: string };
+      prompt_eval_count?: number;
+      eval_count?: number;
+    };
+
+    const text = response.message?.content;
+    if (!text) {
+      log("ERROR", "No text in Ollama response", { response });
+      throw new Error("Ollama API returned no text content");
+    }
+
+    return {
+      text,
+      usage:
+        response.prompt_eval_count !== undefined && response.eval_count !== undefined
+          ? { inputTokens: response.prompt_eval_count, outputTokens: response.eval_count }
+          : undefined,
+    };
+  }
+}
+
+/**
+ * Sends a JSON-RPC request to the connected MCP client and resolves with its result.
+ * Aborting `signal` cancels the request.
+ */
+export type ClientRequester = (method: string, params: unknown, signal?: AbortSignal) => Promise<unknown>;
+
+/**
+ * MCP sampling - asks the connected client to run the prompt through its own
+ * model via sampling/createMessage, so no separate API key is needed.
+ */
+export class SamplingProvider implements SummarizerProvider {
+  readonly name = "MCP sampling";
+
+  constructor(
+    readonly model: string,
+    private requestFromClient: ClientRequester
+  ) {}
+
+  withModel(model: string): SamplingProvider {
+    return new SamplingProvider(model, this.requestFromClient);
+  }
+
+  async summarize({ prompt, maxTokens, signal, image }: SummarizeRequest): Promise<SummarizeResult> {
+    const messages: { role: "user"; content: Record<string, string> }[] = [
+      { role: "user", content: { type: "text", text: prompt } },
+    ];
+    if (image) messages.unshift({ role: "user", content: { type: "image", ...image } });
+    const result = (await this.requestFromClient(
+      "sampling/createMessage",
+      {
+        messages,
+        maxTokens,
+        includeContext: "none",
+        modelPreferences: {
+          hints: [{ name: this.model }],
+          speedPriority: 1,
+          costPriority: 1,
+          intelligencePriority: 0,
+        },
+      },
+      signal
+    )) as { content?: { type: string; text?: string }; model?: string };
+
+    if (result?.content?.type !== "text" || !result.content.text) {
+      log("ERROR", "No text in sampling response", { result });
+      throw new Error("MCP client returned no text content");
+    }
+
+    log("DEBUG", "Sampling response", { model: result.model });
+    return { text: result.content.text };
+  }
+}
+
+/**
+ * The same provider, with `signal` attached to every request.
+ */
+export function withAbortSignal(provider: SummarizerProvider, signal: AbortSignal): SummarizerProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    summarize: (request: SummarizeRequest) => provider.summarize({ ...request, signal }),
+    withModel: (model: string) => withAbortSignal(provider.withModel(model), signal),
+  };
+}
+
+function noClientConnected(): Promise<never> {
+  return Promise.reject(new Error("No MCP client with sampling support is connected"));
+}
+
+export interface ProviderOptions {
+  kind: ProviderKind;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+/**
+ * Read provider options from the environment:
+ * - PLAYWRIGHT_SLIM_PROVIDER: anthropic (default), openai, ollama or sampling
+ * - PLAYWRIGHT_SLIM_MODEL: model name (defaults per provider)
+ * - PLAYWRIGHT_SLIM_BASE_URL: endpoint for openai/ollama
+ * - PLAYWRIGHT_SLIM_API_KEY (or OPENAI_API_KEY): bearer token for openai
+ */
+export function providerOptionsFromEnv(env: NodeJS.ProcessEnv): ProviderOptions {
+  const kind = env.PLAYWRIGHT_SLIM_PROVIDER || "anthropic";
+  if (kind !== "anthropic" && kind !== "openai" && kind !== "ollama" && kind !== "sampling") {
+    throw new Error(
+      `Invalid summarizer provider "${kind}" (expected "anthropic", "openai", "ollama" or "sampling")`
+    );
+  }
+  return {
+    kind,
+    model: env.PLAYWRIGHT_SLIM_MODEL,
+    baseUrl: env.PLAYWRIGHT_SLIM_BASE_URL,
+    apiKey: env.PLAYWRIGHT_SLIM_API_KEY || env.OPENAI_API_KEY,
+  };
+}
+
+export function createProvider(
+  options: ProviderOptions,
+  requestFromClient: ClientRequester = noClientConnected
+): SummarizerProvider {
+  const model = options.model || DEFAULT_MODELS[options.kind];
+  switch (options.kind) {
+    case "anthropic":
+      return new AnthropicProvider(model);
+    case "openai":
+      return new OpenAICompatibleProvider(model, options.baseUrl || DEFAULT_BASE_URLS.openai, options.apiKey);
+    case "ollama":
+      return new OllamaProvider(model, options.baseUrl || DEFAULT_BASE_URLS.ollama);
+    case "sampling":
+      return new SamplingProvider(model, requestFromClient);
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { listInteractiveElements, pruneSnapshot } from "./pruner.js";
+
+describe("pruneSnapshot", () => {
+  it("hoists children of generic containers", () => {
+    const yaml = `- generic [ref=e1]:
+  - generic [ref=e2]:
+    - button "Save" [ref=e3]`;
+
+    expect(pruneSnapshot(yaml)).toBe('- button "Save" [ref=e3]');
+  });
+
+  it("keeps text from generic containers", () => {
+    const yaml = `- generic [ref=e1]: Hello world`;
+    expect(pruneSnapshot(yaml)).toBe("- text: Hello world");
+  });
+
+  it("drops decorative images but keeps named ones", () => {
+    const yaml = `- banner:
+  - img [ref=e1]
+  - img "Company logo" [ref=e2]
+  - link "Home" [ref=e3]`;
+
+    const result = pruneSnapshot(yaml);
+    expect(result).not.toContain("[ref=e1]");
+    expect(result).toContain('img "Company logo" [ref=e2]');
+    expect(result).toContain('link "Home" [ref=e3]');
+  });
+
+  it("drops /url properties and trailing colons of emptied nodes", () => {
+    const yaml = `- link "Docs" [ref=e1] [cursor=pointer]:
+  - /url: https://example.com/docs`;
+
+    expect(pruneSnapshot(yaml)).toBe('- link "Docs" [ref=e1]');
+  });
+
+  it("keeps clickable generic containers", () => {
+    const yaml = `- generic [ref=e1] [cursor=pointer]:
+  - text: Open menu`;
+
+    expect(pruneSnapshot(yaml)).toBe("- generic [ref=e1]:\n  - text: Open menu");
+  });
+
+  it("collapses repeated rows and keeps their interactive refs", () => {
+    const rows = Array.from(
+      { length: 6 },
+      (_, i) => `  - row:
+    - cell "Item ${i}"
+    - button "Edit" [ref=edit-${i}]`
+    ).join("\n");
+    const yaml = `- table "Projects":\n${rows}`;
+
+    const result = pruneSnapshot(yaml);
+    expect(result).toContain("[ref=edit-0]");
+    expect(result).toContain("[ref=edit-2]");
+    expect(result).not.toContain("[ref=edit-3]");
+    expect(result).toContain("3 more similar row items (refs: edit-3, edit-4, edit-5)");
+  });
+
+  it("does not collapse a list of distinct leaf links", () => {
+    const yaml = ["- navigation:", ...[1, 2, 3, 4, 5].map((i) => `  - link "Page ${i}" [ref=l${i}]`)].join(
+      "\n"
+    );
+    expect(pruneSnapshot(yaml)).toBe(yaml);
+  });
+});
+
+describe("listInteractiveElements", () => {
+  it("lists interactive nodes with refs, flattened", () => {
+    const yaml = `- main [ref=e1]:
+  - heading "Checkout" [level=1] [ref=e2]
+  - generic [ref=e3]:
+    - textbox "Email" [ref=e4]: ada@example.com
+    - link "Terms" [ref=e5] [cursor=pointer]:
+      - /url: /terms
+  - generic [ref=e6] [cursor=pointer]: Open menu
+  - button "Pay"`;
+
+    expect(listInteractiveElements(yaml)).toBe(
+      '- textbox "Email" [ref=e4]: ada@example.com\n- link "Terms" [ref=e5]\n- generic [ref=e6]: Open menu'
+    );
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Rule-based snapshot pruner - an offline alternative to LLM summarization.
+ *
+ * Walks the accessibility snapshot YAML, drops generic containers and decorative
+ * images, collapses runs of structurally identical siblings (e.g. table rows), and
+ * keeps every interactive node together with its [ref=...].
+ */
+
+import { findNodes, formatNodeKey, formatNodeLine, parseSnapshotYaml, SnapshotNode } from "./ast.js";
+
+// Roles a user can act on - these are never dropped
+const INTERACTIVE_ROLES = new Set([
+  "button",
+  "checkbox",
+  "combobox",
+  "link",
+  "listbox",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "option",
+  "radio",
+  "searchbox",
+  "slider",
+  "spinbutton",
+  "switch",
+  "tab",
+  "textbox",
+  "treeitem",
+]);
+
+// Wrapper roles that carry no meaning of their own
+const CONTAINER_ROLES = new Set(["generic", "none", "presentation"]);
+
+// Number of similar siblings shown before the rest are collapsed
+const MAX_SIMILAR_SIBLINGS = 3;
+
+function isInteractive(node: SnapshotNode): boolean {
+  return INTERACTIVE_ROLES.has(node.role) || node.attributes.cursor === "pointer";
+}
+
+/**
+ * Structural fingerprint of a node, ignoring names and refs.
+ * Siblings with equal signatures are treated as repeated items.
+ */
+function signature(node: SnapshotNode): string {
+  return `${node.role}(${node.children.map(signature).join(",")})`;
+}
+
+function collectInteractiveRefs(nodes: SnapshotNode[], refs: string[]): string[] {
+  for (const node of nodes) {
+    if (node.ref && isInteractive(node)) refs.push(node.ref);
+    collectInteractiveRefs(node.children, refs);
+  }
+  return refs;
+}
+
+function pruneNodes(nodes: SnapshotNode[], markers: Set<SnapshotNode>): SnapshotNode[] {
+  const result: SnapshotNode[] = [];
+
+  for (const node of nodes) {
+    const children = pruneNodes(node.children, markers);
+
+    // Images without an accessible name are decorative
+    if (node.role === "img" && !node.name && !isInteractive(node)) continue;
+
+    if (CONTAINER_ROLES.has(node.role) && !node.name && !isInteractive(node)) {
+      // Keep the container's own text, hoist its children
+      if (node.text !== undefined) {
+        result.push({ role: "text", text: node.text, attributes: {}, props: {}, children: [] });
+      }
+      result.push(...children);
+      continue;
+    }
+
+    // Link targets and pointer styles are noise for an agent
+    const attributes = { ...node.attributes };
+    delete attributes.cursor;
+    result.push({ ...node, attributes, props: {}, children });
+  }
+
+  return collapseRepeats(result, markers);
+}
+
+function collapseRepeats(nodes: SnapshotNode[], markers: Set<SnapshotNode>): SnapshotNode[] {
+  const result: SnapshotNode[] = [];
+  let i = 0;
+
+  while (i < nodes.length) {
+    const sig = signature(nodes[i]);
+    let runLength = 1;
+    while (i + runLength < nodes.length && signature(nodes[i + runLength]) === sig) {
+      runLength++;
+    }
+
+    // Only collapse runs of structured items; a list of distinct links stays intact
+    const collapsible = runLength > MAX_SIMILAR_SIBLINGS && nodes[i].children.length > 0;
+    if (!collapsible) {
+      result.push(...nodes.slice(i, i + runLength));
+      i += runLength;
+      continue;
+    }
+
+    result.push(...nodes.slice(i, i + MAX_SIMILAR_SIBLINGS));
+    const hidden = nodes.slice(i + MAX_SIMILAR_SIBLINGS, i + runLength);
+    const refs = collectInteractiveRefs(hidden, []);
+    const refList = refs.length > 0 ? ` (refs: ${refs.join(", ")})` : "";
+    const marker: SnapshotNode = {
+      role: "text",
+      text: `${hidden.length} more similar ${nodes[i].role} items${refList}`,
+      attributes: {},
+      props: {},
+      children: [],
+    };
+    markers.add(marker);
+    result.push(marker);
+    i += runLength;
+  }
+
+  return result;
+}
+
+function serialize(nodes: SnapshotNode[], depth: number, markers: Set<SnapshotNode>, lines: string[]): string[] {
+  for (const node of nodes) {
+    // Markers are notes for the agent, not YAML nodes, so they are written unquoted
+    const line = markers.has(node) ? node.text : formatNodeLine(node);
+    lines.push(`${"  ".repeat(depth)}- ${line}`);
+    serialize(node.children, depth + 1, markers, lines);
+  }
+  return lines;
+}
+
+/**
+ * Prune an accessibility snapshot YAML into a compact outline.
+ * Deterministic and offline - no API calls.
+ */
+export function pruneSnapshot(snapshotYaml: string): string {
+  const markers = new Set<SnapshotNode>();
+  const pruned = pruneNodes(parseSnapshotYaml(snapshotYaml), markers);
+  return serialize(pruned, 0, markers, []).join("\n");
+}
+
+/**
+ * A flat list of the interactive nodes that have a ref, one per line, without the
+ * page structure around them.
+ */
+export function listInteractiveElements(snapshotYaml: string): string {
+  return findNodes(parseSnapshotYaml(snapshotYaml), (node) => node.ref !== undefined && isInteractive(node))
+    .map((node) => {
+      const attributes = { ...node.attributes };
+      delete attributes.cursor;
+      const text = node.text !== undefined ? `: ${node.text}` : "";
+      return `- ${formatNodeKey({ ...node, attributes })}${text}`;
+    })
+    .join("\n");
+}
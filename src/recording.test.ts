@@ -0,0 +1,120 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  loadRecording,
+  RecordedEntry,
+  ReplaySummarizer,
+  ReplayUpstream,
+  resolveRecordingMode,
+  SessionRecorder,
+} from "./recording.js";
+import { SummarizerProvider } from "./providers.js";
+
+const fakeProvider = (summarize: SummarizerProvider["summarize"]): SummarizerProvider => ({
+  name: "Fake",
+  model: "fake-1",
+  summarize,
+  withModel: () => fakeProvider(summarize),
+});
+
+const entry = (fields: Partial<RecordedEntry>): RecordedEntry => ({ session: 1, at: 0, ...fields }) as RecordedEntry;
+
+describe("resolveRecordingMode", () => {
+  it("reads flags before env vars", () => {
+    expect(resolveRecordingMode(["--slim-record=a.jsonl"], { PLAYWRIGHT_SLIM_RECORD: "b.jsonl" })).toEqual({
+      mode: "record",
+      file: "a.jsonl",
+    });
+    expect(resolveRecordingMode([], { PLAYWRIGHT_SLIM_REPLAY: "b.jsonl" })).toEqual({
+      mode: "replay",
+      file: "b.jsonl",
+    });
+    expect(resolveRecordingMode([], {})).toBeNull();
+  });
+
+  it("rejects recording and replaying at once", () => {
+    expect(() => resolveRecordingMode(["--slim-record=a", "--slim-replay=b"], {})).toThrow(/at the same time/);
+  });
+});
+
+describe("SessionRecorder", () => {
+  let tempDir: string;
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("records messages and summarizer requests, including failures", async () => {
+    tempDir = mkdtempSync(join(tmpdir(), "slim-recording-"));
+    const file = join(tempDir, "session.jsonl");
+    const recorder = new SessionRecorder(file, 2);
+
+    recorder.message("client-to-proxy", '{"id":1}');
+    await recorder.trackSummarizer(fakeProvider(async () => ({ text: "summary" }))).summarize({
+      prompt: "p",
+      maxTokens: 10,
+    });
+    await expect(
+      recorder
+        .trackSummarizer(fakeProvider(() => Promise.reject(new Error("overloaded"))))
+        .summarize({ prompt: "q", maxTokens: 10 })
+    ).rejects.toThrow("overloaded");
+
+    const entries = loadRecording(file, 2);
+    expect(entries).toMatchObject([
+      { session: 2, type: "client-to-proxy", line: '{"id":1}' },
+      { type: "summarize", provider: "Fake", model: "fake-1", prompt: "p", result: { text: "summary" } },
+      { type: "summarize", prompt: "q", error: "overloaded" },
+    ]);
+    expect(readFileSync(file, "utf8").trim().split("\n")).toHaveLength(3);
+    expect(() => loadRecording(file, 1)).toThrow(/no session 1/);
+  });
+});
+
+describe("ReplayUpstream", () => {
+  it("answers each request with the recorded output up to its response", async () => {
+    const lines: string[] = [];
+    const upstream = new ReplayUpstream(
+      [
+        entry({ type: "upstream-to-proxy", line: '{"jsonrpc":"2.0","method":"notifications/message"}' }),
+        entry({ type: "upstream-to-proxy", line: '{"jsonrpc":"2.0","id":1,"result":{}}' }),
+        entry({ type: "proxy-to-client", line: "ignored" }),
+        entry({ type: "upstream-to-proxy", line: '{"jsonrpc":"2.0","id":2,"result":{"content":[]}}' }),
+      ],
+      { onLine: (line) => lines.push(line), onExit: () => {} }
+    );
+
+    upstream.send('{"jsonrpc":"2.0","id":1,"method":"initialize"}');
+    upstream.send('{"jsonrpc":"2.0","method":"notifications/initialized"}');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(lines).toEqual([
+      '{"jsonrpc":"2.0","method":"notifications/message"}',
+      '{"jsonrpc":"2.0","id":1,"result":{}}',
+    ]);
+
+    upstream.send('{"jsonrpc":"2.0","id":3,"method":"tools/call"}');
+    upstream.send('{"jsonrpc":"2.0","id":2,"method":"tools/call"}');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(lines).toHaveLength(3);
+  });
+});
+
+describe("ReplaySummarizer", () => {
+  it("returns recorded results by prompt, each once", async () => {
+    const recorded = (prompt: string, outcome: object) =>
+      entry({ type: "summarize", provider: "Anthropic", model: "claude-haiku-4-5", prompt, ...outcome });
+    const summarizer = new ReplaySummarizer([
+      recorded("a", { result: { text: "A" } }),
+      recorded("b", { error: "overloaded" }),
+      recorded("a", { result: { text: "A2" } }),
+    ]);
+
+    expect(summarizer.model).toBe("claude-haiku-4-5");
+    expect(await summarizer.summarize({ prompt: "a", maxTokens: 1 })).toEqual({ text: "A" });
+    expect(await summarizer.withModel().summarize({ prompt: "a", maxTokens: 1 })).toEqual({ text: "A2" });
+    await expect(summarizer.summarize({ prompt: "b", maxTokens: 1 })).rejects.toThrow("overloaded");
+    await expect(summarizer.summarize({ prompt: "a", maxTokens: 1 })).rejects.toThrow(/No recorded summary/);
+  });
+});
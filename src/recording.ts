@@ -0,0 +1,235 @@
+/**
+ * Recording and replay of proxy sessions.
+ *
+ * In record mode every message between client, proxy and upstream, and every
+ * summarizer request, is appended to a JSONL file. In replay mode that file stands
+ * in for the upstream and the summarizer, so a session can be reproduced offline:
+ * send the recorded client messages and the proxy answers as it did.
+ */
+
+import { appendFileSync, readFileSync } from "fs";
+import { log } from "./logger.js";
+import { SummarizeRequest, SummarizeResult, SummarizerProvider } from "./providers.js";
+import { Upstream, UpstreamHandlers } from "./upstream.js";
+
+export type RecordedMessageType = "client-to-proxy" | "proxy-to-upstream" | "upstream-to-proxy" | "proxy-to-client";
+
+interface RecordedMessage {
+  type: RecordedMessageType;
+  line: string;
+}
+
+interface RecordedSummarize {
+  type: "summarize";
+  provider: string;
+  model: string;
+  prompt: string;
+  maxTokens: number;
+  result?: SummarizeResult;
+  error?: string;
+}
+
+export type RecordedEntry = {
+  /** Proxy session, numbered from 1 in the order sessions started */
+  session: number;
+  /** Milliseconds since the session started */
+  at: number;
+} & (RecordedMessage | RecordedSummarize);
+
+export type RecordingMode = { mode: "record" | "replay"; file: string };
+
+/**
+ * The mode from the --slim-record=<file> / --slim-replay=<file> flags, or
+ * PLAYWRIGHT_SLIM_RECORD / PLAYWRIGHT_SLIM_REPLAY; null if neither is set.
+ */
+export function resolveRecordingMode(argv: string[], env: NodeJS.ProcessEnv): RecordingMode | null {
+  const option = (name: string, envValue: string | undefined) => {
+    const flag = argv.find((arg) => arg.startsWith(`--slim-${name}=`));
+    return (flag ? flag.slice(`--slim-${name}=`.length) : envValue) || undefined;
+  };
+  const record = option("record", env.PLAYWRIGHT_SLIM_RECORD);
+  const replay = option("replay", env.PLAYWRIGHT_SLIM_REPLAY);
+
+  if (record && replay) throw new Error("Cannot record and replay at the same time");
+  if (record) return { mode: "record", file: record };
+  if (replay) return { mode: "replay", file: replay };
+  return null;
+}
+
+/**
+ * Appends one session's traffic to a recording file.
+ */
+export class SessionRecorder {
+  private readonly startedAt = Date.now();
+  private failed = false;
+
+  constructor(
+    private filePath: string,
+    private session: number
+  ) {}
+
+  private append(entry: RecordedMessage | RecordedSummarize): void {
+    try {
+      const line = JSON.stringify({ session: this.session, at: Date.now() - this.startedAt, ...entry });
+      // Written synchronously so the recording is complete even if the proxy is killed
+      appendFileSync(this.filePath, line + "\n");
+    } catch (err) {
+      if (!this.failed) log("ERROR", "Could not write recording", { filePath: this.filePath, error: String(err) });
+      this.failed = true;
+    }
+  }
+
+  message(type: RecordedMessageType, line: string): void {
+    this.append({ type, line });
+  }
+
+  /**
+   * The same provider, with every request and its result recorded.
+   */
+  trackSummarizer(provider: SummarizerProvider): SummarizerProvider {
+    return {
+      name: provider.name,
+      model: provider.model,
+      summarize: async (request: SummarizeRequest) => {
+        const entry: RecordedSummarize = {
+          type: "summarize",
+          provider: provider.name,
+          model: provider.model,
+          prompt: request.prompt,
+          maxTokens: request.maxTokens,
+        };
+        try {
+          const result = await provider.summarize(request);
+          this.append({ ...entry, result });
+          return result;
+        } catch (err) {
+          this.append({ ...entry, error: err instanceof Error ? err.message : String(err) });
+          throw err;
+        }
+      },
+      withModel: (model: string) => this.trackSummarizer(provider.withModel(model)),
+    };
+  }
+}
+
+/**
+ * The entries of one session of a recording file.
+ */
+export function loadRecording(filePath: string, session: number): RecordedEntry[] {
+  const entries = readFileSync(filePath, "utf8")
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .map((line, i) => {
+      try {
+        return JSON.parse(line) as RecordedEntry;
+      } catch {
+        throw new Error(`Invalid recording ${filePath}: line ${i + 1} is not JSON`);
+      }
+    })
+    .filter((entry) => entry.session === session);
+
+  if (entries.length === 0) {
+    throw new Error(`Recording ${filePath} has no session ${session}`);
+  }
+  return entries;
+}
+
+/**
+ * Plays back the recorded upstream. Each request the proxy sends is answered with
+ * the recorded upstream output up to and including the response to that request
+ * ID, so notifications arrive where they did in the recording.
+ */
+export class ReplayUpstream implements Upstream {
+  readonly pid = null;
+  private lines: string[];
+  private cursor = 0;
+
+  constructor(
+    entries: RecordedEntry[],
+    private handlers: UpstreamHandlers
+  ) {
+    this.lines = entries
+      .filter((entry): entry is RecordedEntry & RecordedMessage => entry.type === "upstream-to-proxy")
+      .map((entry) => entry.line);
+  }
+
+  start(): void {
+    log("INFO", "Replaying upstream", { messages: this.lines.length });
+  }
+
+  send(line: string): void {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      return;
+    }
+
+    for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+      if (message?.method === undefined || message.id === undefined) continue;
+
+      const index = this.lines.findIndex((recorded, i) => i >= this.cursor && respondsTo(recorded, message.id));
+      if (index === -1) {
+        log("ERROR", "No recorded upstream response", { id: message.id, method: message.method });
+        continue;
+      }
+      const replayed = this.lines.slice(this.cursor, index + 1);
+      this.cursor = index + 1;
+      // Answer asynchronously, like a real upstream
+      setImmediate(() => replayed.forEach((recorded) => this.handlers.onLine(recorded)));
+    }
+  }
+
+  killBrowser(): void {}
+
+  pause(): void {}
+
+  resume(): void {}
+
+  close(): void {}
+}
+
+function respondsTo(line: string, id: unknown): boolean {
+  try {
+    const parsed = JSON.parse(line);
+    return (Array.isArray(parsed) ? parsed : [parsed]).some(
+      (message) => message?.method === undefined && message?.id === id
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Answers summarization requests with the recorded results for the same prompt,
+ * each recorded result used once, in order.
+ */
+export class ReplaySummarizer implements SummarizerProvider {
+  readonly name = "Replay";
+  readonly model: string;
+  private remaining: RecordedSummarize[];
+
+  constructor(entries: RecordedEntry[]) {
+    this.remaining = entries.filter(
+      (entry): entry is RecordedEntry & RecordedSummarize => entry.type === "summarize"
+    );
+    this.model = this.remaining[0]?.model ?? "replay";
+  }
+
+  withModel(): ReplaySummarizer {
+    // The recording decides what each prompt gets, whatever the model
+    return this;
+  }
+
+  async summarize({ prompt }: SummarizeRequest): Promise<SummarizeResult> {
+    const index = this.remaining.findIndex((entry) => entry.prompt === prompt);
+    if (index === -1) {
+      throw new Error("No recorded summary for this prompt");
+    }
+    const [entry] = this.remaining.splice(index, 1);
+    if (entry.error !== undefined || !entry.result) {
+      throw new Error(entry.error ?? "Recorded summarization failed");
+    }
+    return entry.result;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { extractSnapshotRefs, extractSummaryRefs, hasInvalidRefs, validateSummaryRefs } from "./refs.js";
+
+const SNAPSHOT = `- main [ref=e1]:
+  - button "Save" [ref=e12]
+  - link "Settings" [ref=e13]
+  - textbox "Email" [ref=e14]`;
+
+describe("extractSnapshotRefs / extractSummaryRefs", () => {
+  it("finds bracketed and bare refs", () => {
+    expect(extractSnapshotRefs(SNAPSHOT)).toEqual(["e1", "e12", "e13", "e14"]);
+    expect(extractSummaryRefs("Save [ref=e12], Settings (ref=e13)")).toEqual(["e12", "e13"]);
+  });
+});
+
+describe("validateSummaryRefs", () => {
+  it("keeps valid refs untouched", () => {
+    const summary = 'Buttons: "Save" [ref=e12]';
+    const result = validateSummaryRefs(summary, SNAPSHOT);
+    expect(result.text).toBe(summary);
+    expect(result.valid).toEqual(["e12"]);
+    expect(hasInvalidRefs(result)).toBe(false);
+  });
+
+  it("corrects case and a missing e prefix", () => {
+    const result = validateSummaryRefs("Save [ref=E12], Email [ref=14]", SNAPSHOT);
+    expect(result.text).toBe("Save [ref=e12], Email [ref=e14]");
+    expect(result.corrected).toEqual({ E12: "e12", "14": "e14" });
+  });
+
+  it("corrects refs by the quoted name on the same line", () => {
+    const result = validateSummaryRefs('Link "Settings" [ref=e99]', SNAPSHOT);
+    expect(result.text).toBe('Link "Settings" [ref=e13]');
+  });
+
+  it("strips refs that cannot be corrected", () => {
+    const result = validateSummaryRefs('Buttons: "Delete" [ref=e77], "Save" [ref=e12]', SNAPSHOT);
+    expect(result.text).toBe('Buttons: "Delete", "Save" [ref=e12]');
+    expect(result.stripped).toEqual(["e77"]);
+    expect(hasInvalidRefs(result)).toBe(true);
+  });
+
+  it("leaves href and URL query parameters alone", () => {
+    const summary = 'Link "Docs" [ref=e13] (href=https://x/docs), "Home" (url=https://x/?ref=nav) [ref=e12]';
+    const result = validateSummaryRefs(summary, SNAPSHOT);
+    expect(result.text).toBe(summary);
+    expect(result.valid).toEqual(["e13", "e12"]);
+    expect(result.stripped).toEqual([]);
+  });
+});
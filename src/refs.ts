@@ -0,0 +1,99 @@
+/**
+ * Ref validation - checks that the [ref=...] values in a model-written summary
+ * actually exist in the snapshot it was written from, since a wrong ref makes the
+ * agent's next click fail.
+ */
+
+// Matches "[ref=e12]" as well as a bare "ref=e12" the model may write instead, but
+// not the end of "href=..." or a "?ref=..." query parameter in a URL
+const SUMMARY_REF_PATTERN = /(?:\[|(?<![\w\-?&=/.]))ref=([^\]\s,;)]+)\]?/g;
+const SNAPSHOT_REF_PATTERN = /\[ref=([^\]]+)\]/g;
+
+export interface RefValidation {
+  /** The summary with invalid refs corrected or stripped */
+  text: string;
+  valid: string[];
+  /** Invalid ref -> the snapshot ref it was corrected to */
+  corrected: Record<string, string>;
+  /** Invalid refs that could not be corrected and were removed */
+  stripped: string[];
+}
+
+/**
+ * All refs in a snapshot YAML, in document order.
+ */
+export function extractSnapshotRefs(snapshotYaml: string): string[] {
+  return [...snapshotYaml.matchAll(SNAPSHOT_REF_PATTERN)].map((m) => m[1]);
+}
+
+/**
+ * All refs mentioned in a summary, in order of appearance.
+ */
+export function extractSummaryRefs(summary: string): string[] {
+  return [...summary.matchAll(SUMMARY_REF_PATTERN)].map((m) => m[1]);
+}
+
+/**
+ * Try to map an invalid ref to a real one: fix case and a missing "e" prefix,
+ * otherwise look up the closest quoted name before the ref in the snapshot.
+ */
+function correctRef(
+  ref: string,
+  textBefore: string,
+  snapshotYaml: string,
+  knownRefs: Set<string>
+): string | null {
+  const cleaned = ref.replace(/^["'`]+|["'`.]+$/g, "");
+  for (const candidate of [cleaned, cleaned.toLowerCase(), `e${cleaned}`]) {
+    if (knownRefs.has(candidate)) return candidate;
+  }
+
+  // Only a name directly before the ref counts, e.g. `"Save" [ref=e99]`, not one followed by its own ref
+  const precedingName = textBefore.match(/"([^"]+)"[^"\[]*$/)?.[1];
+  if (!precedingName) return null;
+
+  const matches = snapshotYaml
+    .split("\n")
+    .filter((yamlLine) => yamlLine.includes(`"${precedingName}"`))
+    .flatMap((yamlLine) => extractSnapshotRefs(yamlLine));
+  // Only trust an unambiguous match
+  return matches.length === 1 ? matches[0] : null;
+}
+
+/**
+ * Check every ref in `summary` against `snapshotYaml`, correcting the ones that can
+ * be mapped to a real node and stripping the rest.
+ */
+export function validateSummaryRefs(summary: string, snapshotYaml: string): RefValidation {
+  const knownRefs = new Set(extractSnapshotRefs(snapshotYaml));
+  const result: RefValidation = { text: "", valid: [], corrected: {}, stripped: [] };
+
+  result.text = summary
+    .split("\n")
+    .map((line) => {
+      let strippedAny = false;
+      const replaced = line.replace(SUMMARY_REF_PATTERN, (token, ref: string, offset: number) => {
+        if (knownRefs.has(ref)) {
+          result.valid.push(ref);
+          return token;
+        }
+        const corrected = correctRef(ref, line.slice(0, offset), snapshotYaml, knownRefs);
+        if (corrected) {
+          result.corrected[ref] = corrected;
+          return `[ref=${corrected}]`;
+        }
+        result.stripped.push(ref);
+        strippedAny = true;
+        return "";
+      });
+      // Stripping a ref can leave a dangling space before punctuation or at the end
+      return strippedAny ? replaced.replace(/ +([,;)])/g, "$1").replace(/ +$/, "") : replaced;
+    })
+    .join("\n");
+
+  return result;
+}
+
+export function hasInvalidRefs(validation: RefValidation): boolean {
+  return validation.stripped.length > 0 || Object.keys(validation.corrected).length > 0;
+}
@@ -0,0 +1,60 @@
+/**
+ * Parsing of Playwright MCP tool responses: the Page section and the snapshot
+ * YAML inside the Snapshot section.
+ */
+
+/**
+ * Parsed result from a Playwright response containing page and snapshot info.
+ */
+export interface ParsedSnapshot {
+  url: string;
+  title: string;
+  snapshotYaml: string;
+  /** The full matched text from "### Page" through end of snapshot, for replacement */
+  fullMatch: string;
+}
+
+/**
+ * Parse a Playwright MCP response to extract page info and snapshot.
+ * More robust than regex - handles varying content between sections.
+ */
+export function parsePlaywrightResponse(text: string): ParsedSnapshot | null {
+  // Find the "### Page" section start
+  const pageSectionStart = text.indexOf("### Page\n");
+  if (pageSectionStart === -1) return null;
+
+  // Find where the Page section ends (next ### or end of text)
+  const afterPageHeader = pageSectionStart + "### Page\n".length;
+  const nextSectionAfterPage = text.indexOf("\n### ", afterPageHeader);
+  const pageSectionEnd =
+    nextSectionAfterPage !== -1 ? nextSectionAfterPage : text.length;
+  const pageSection = text.slice(afterPageHeader, pageSectionEnd);
+
+  // Extract URL and Title from the Page section
+  const urlMatch = pageSection.match(/^- Page URL: (.+)$/m);
+  const titleMatch = pageSection.match(/^- Page Title: (.+)$/m);
+  if (!urlMatch || !titleMatch) return null;
+
+  // Find the "### Snapshot" section with yaml content
+  const snapshotHeaderStart = text.indexOf("### Snapshot\n", pageSectionStart);
+  if (snapshotHeaderStart === -1) return null;
+
+  const yamlStart = text.indexOf("```yaml\n", snapshotHeaderStart);
+  if (yamlStart === -1) return null;
+
+  const yamlContentStart = yamlStart + "```yaml\n".length;
+  const yamlEnd = text.indexOf("```", yamlContentStart);
+  if (yamlEnd === -1) return null;
+
+  const snapshotYaml = text.slice(yamlContentStart, yamlEnd);
+
+  // fullMatch spans from "### Page" through end of snapshot code block
+  const fullMatch = text.slice(pageSectionStart, yamlEnd + "```".length);
+
+  return {
+    url: urlMatch[1],
+    title: titleMatch[1],
+    snapshotYaml,
+    fullMatch,
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from "vitest";
+import { OutputSequencer, SequencerSink } from "./sequencer.js";
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+function fakeSink(accept = () => true) {
+  const written: string[] = [];
+  const sink: SequencerSink & { written: string[] } = {
+    written,
+    write: (line) => {
+      written.push(line);
+      return accept();
+    },
+    waitForDrain: () => Promise.resolve(),
+    pause: vi.fn(),
+    resume: vi.fn(),
+  };
+  return sink;
+}
+
+describe("OutputSequencer", () => {
+  it("writes in push order even when later output is ready first", async () => {
+    const sink = fakeSink();
+    const sequencer = new OutputSequencer(sink);
+    const toolResult = deferred<string | null>();
+
+    sequencer.push("progress");
+    sequencer.push(toolResult.promise);
+    sequencer.push("log");
+    await vi.waitFor(() => expect(sink.written).toEqual(["progress"]));
+
+    toolResult.resolve("result");
+    await vi.waitFor(() => expect(sink.written).toEqual(["progress", "result", "log"]));
+    expect(sequencer.size).toBe(0);
+  });
+
+  it("passes on the request a line belongs to", async () => {
+    const sink = fakeSink();
+    const write = vi.spyOn(sink, "write");
+    const sequencer = new OutputSequencer(sink);
+    sequencer.push(Promise.resolve({ line: "progress", relatedRequestId: 7 }));
+    sequencer.push("log");
+    await vi.waitFor(() => expect(sink.written).toEqual(["progress", "log"]));
+    expect(write.mock.calls).toEqual([["progress", 7], ["log"]]);
+  });
+
+  it("skips null output", async () => {
+    const sink = fakeSink();
+    const sequencer = new OutputSequencer(sink);
+    sequencer.push(Promise.resolve(null));
+    sequencer.push("next");
+    await vi.waitFor(() => expect(sink.written).toEqual(["next"]));
+  });
+
+  it("waits for the client to drain before writing more", async () => {
+    const drain = deferred<void>();
+    const sink = fakeSink(() => false);
+    sink.waitForDrain = () => drain.promise;
+    const sequencer = new OutputSequencer(sink);
+
+    sequencer.push("first");
+    sequencer.push("second");
+    await vi.waitFor(() => expect(sink.written).toEqual(["first"]));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(sink.written).toEqual(["first"]);
+
+    drain.resolve();
+    await vi.waitFor(() => expect(sink.written).toEqual(["first", "second"]));
+  });
+
+  it("pauses the upstream at the high-water mark and resumes at half of it", async () => {
+    const sink = fakeSink();
+    const sequencer = new OutputSequencer(sink, 4);
+    const blocked = deferred<string | null>();
+
+    sequencer.push(blocked.promise);
+    for (let i = 0; i < 3; i++) sequencer.push(`line ${i}`);
+    expect(sink.pause).toHaveBeenCalledTimes(1);
+    expect(sink.resume).not.toHaveBeenCalled();
+
+    blocked.resolve("first");
+    await vi.waitFor(() => expect(sink.written).toHaveLength(4));
+    expect(sink.resume).toHaveBeenCalledTimes(1);
+  });
+});
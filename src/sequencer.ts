@@ -0,0 +1,92 @@
+/**
+ * Writes processed upstream messages to the client in the order the upstream sent
+ * them. Processing runs concurrently, but a notification that followed a tool
+ * response never overtakes it while it is being summarized.
+ */
+
+export interface SequencerSink {
+  /**
+   * Write one line, on the stream of `relatedRequestId` if given; false if the client
+   * is not keeping up, like stream.write
+   */
+  write(line: string, relatedRequestId?: string | number): boolean;
+  /** Resolves once the client has caught up */
+  waitForDrain(): Promise<void>;
+  /** Stop and restart reading from the upstream */
+  pause(): void;
+  resume(): void;
+}
+
+/**
+ * A line for the client and the request it belongs to, e.g. the tool call a
+ * progress notification reports on.
+ */
+export interface SequencedLine {
+  line: string;
+  relatedRequestId?: string | number;
+}
+
+type SequencerOutput = string | SequencedLine | null;
+
+interface Slot {
+  done: boolean;
+  /** What to write, or null to write nothing */
+  output: SequencerOutput;
+}
+
+export class OutputSequencer {
+  private queue: Slot[] = [];
+  private flushing = false;
+  private paused = false;
+
+  /**
+   * @param highWaterMark queued messages at which the upstream is paused; it is
+   * resumed once the queue is down to half of that
+   */
+  constructor(
+    private sink: SequencerSink,
+    private highWaterMark = 100
+  ) {}
+
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue the output for the next upstream message. `output` must not reject.
+   */
+  push(output: SequencerOutput | Promise<SequencerOutput>): void {
+    const slot: Slot = { done: false, output: null };
+    this.queue.push(slot);
+    if (!this.paused && this.queue.length >= this.highWaterMark) {
+      this.paused = true;
+      this.sink.pause();
+    }
+
+    void Promise.resolve(output).then((ready) => {
+      slot.done = true;
+      slot.output = ready;
+      void this.flush();
+    });
+  }
+
+  private async flush(): Promise<void> {
+    if (this.flushing) return;
+    this.flushing = true;
+    try {
+      while (this.queue.length > 0 && this.queue[0].done) {
+        const { output } = this.queue.shift()!;
+        const written =
+          output === null ||
+          (typeof output === "string" ? this.sink.write(output) : this.sink.write(output.line, output.relatedRequestId));
+        if (!written) await this.sink.waitForDrain();
+        if (this.paused && this.queue.length <= this.highWaterMark / 2) {
+          this.paused = false;
+          this.sink.resume();
+        }
+      }
+    } finally {
+      this.flushing = false;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { Stash } from "./stash.js";
+
+describe("Stash", () => {
+  it("hands out handles and drops the oldest entries when full", () => {
+    const stash = new Stash<string>("img", 10);
+    const first = stash.put("a", 4);
+    const second = stash.put("b", 4);
+    expect([first, second]).toEqual(["img-1", "img-2"]);
+
+    const third = stash.put("c", 4);
+    expect(stash.get(first!)).toBeUndefined();
+    expect(stash.get(second!)).toBe("b");
+    expect(stash.get(third!)).toBe("c");
+    expect(stash.size).toBe(2);
+  });
+
+  it("refuses entries larger than the whole stash", () => {
+    const stash = new Stash<string>("img", 10);
+    stash.put("a", 4);
+    expect(stash.put("huge", 11)).toBeNull();
+    expect(stash.size).toBe(1);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Proxy-side storage for content taken out of tool results - original screenshots,
+ * for example - so the agent can fetch it later by handle instead of paying for it
+ * in every response.
+ */
+
+export class Stash<T> {
+  // Insertion order is age order, so the first entry is the oldest
+  private entries = new Map<string, { value: T; size: number }>();
+  private totalSize = 0;
+  private nextId = 1;
+
+  /**
+   * @param prefix start of every handle, e.g. "img" for "img-1"
+   * @param maxSize total size of the entries kept; the oldest are dropped first
+   */
+  constructor(
+    private prefix: string,
+    private maxSize: number
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Store `value` and return its handle, or null if it is larger than the whole stash.
+   */
+  put(value: T, size: number): string | null {
+    if (size > this.maxSize) return null;
+
+    while (this.totalSize + size > this.maxSize) {
+      const [oldest, entry] = this.entries.entries().next().value!;
+      this.entries.delete(oldest);
+      this.totalSize -= entry.size;
+    }
+
+    const handle = `${this.prefix}-${this.nextId++}`;
+    this.entries.set(handle, { value, size });
+    this.totalSize += size;
+    return handle;
+  }
+
+  /**
+   * The stored value, or undefined if the handle is unknown or was dropped.
+   */
+  get(handle: string): T | undefined {
+    return this.entries.get(handle)?.value;
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { StatsCollector } from "./stats.js";
+import { SummarizerProvider } from "./providers.js";
+
+const state = { cache: { hits: 3, misses: 1 }, upstreamPid: 42, pendingRequests: 2 };
+
+function call(overrides: Partial<Parameters<StatsCollector["recordToolCall"]>[1]> = {}) {
+  return { originalBytes: 4000, returnedBytes: 400, latencyMs: 100, processingMs: 50, error: false, ...overrides };
+}
+
+describe("StatsCollector", () => {
+  it("aggregates per-tool and total bytes and tokens saved", () => {
+    const stats = new StatsCollector();
+    stats.recordToolCall("browser_click", call());
+    stats.recordToolCall("browser_click", call({ error: true }));
+    stats.recordToolCall("browser_tabs", call({ originalBytes: 100, returnedBytes: 100 }));
+
+    const report = stats.report(state);
+    expect(report.tools.browser_click).toEqual({
+      calls: 2,
+      errors: 1,
+      originalBytes: 8000,
+      returnedBytes: 800,
+      estimatedTokensSaved: 1800,
+    });
+    expect(report.tools.browser_tabs.estimatedTokensSaved).toBe(0);
+    expect(report.totals).toMatchObject({ calls: 3, originalBytes: 8100, estimatedTokensSaved: 1800 });
+    expect(report.cache).toEqual({ hits: 3, misses: 1, hitRate: 0.75 });
+    expect(report).toMatchObject({ upstreamPid: 42, pendingRequests: 2 });
+  });
+
+  it("computes latency percentiles", () => {
+    const stats = new StatsCollector();
+    for (let ms = 1; ms <= 100; ms++) stats.recordToolCall("browser_click", call({ latencyMs: ms }));
+    expect(stats.report(state).latencyMs).toEqual({ p50: 50, p90: 90, p99: 99, max: 100 });
+    expect(new StatsCollector().report(state).latencyMs).toEqual({ p50: 0, p90: 0, p99: 0, max: 0 });
+  });
+
+  it("records summarizer usage through a tracked provider", async () => {
+    const stats = new StatsCollector();
+    const provider: SummarizerProvider = {
+      name: "Fake",
+      model: "fake-1",
+      summarize: async () => ({ text: "ok", usage: { inputTokens: 1000, outputTokens: 50 } }),
+      withModel: () => provider,
+    };
+
+    const tracked = stats.trackUsage(provider);
+    await tracked.summarize({ prompt: "p", maxTokens: 10 });
+    await tracked.withModel("fake-2").summarize({ prompt: "p", maxTokens: 10 });
+    expect(tracked.name).toBe("Fake");
+    expect(stats.report(state).summarizer).toEqual({ requests: 2, inputTokens: 2000, outputTokens: 100 });
+  });
+});
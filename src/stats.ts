@@ -0,0 +1,133 @@
+import { SummarizeRequest, SummarizeResult, SummarizerProvider } from "./providers.js";
+
+/**
+ * The locally answered tool that reports what the proxy is saving.
+ * Injected into tools/list next to the aliases.
+ */
+export const SLIM_STATS_TOOL = {
+  name: "slim_stats",
+  description:
+    "Report playwright-slim-mcp statistics: per-tool call counts, original vs returned bytes, " +
+    "estimated tokens saved, summarizer token usage, latency percentiles and cache hit rate",
+  inputSchema: { type: "object", properties: {} },
+  annotations: { title: "Proxy statistics", readOnlyHint: true },
+};
+
+// Rough chars-per-token ratio for English text and YAML
+const CHARS_PER_TOKEN = 4;
+
+// Latency samples kept for percentiles; older samples are dropped
+const MAX_LATENCY_SAMPLES = 1000;
+
+interface ToolStats {
+  calls: number;
+  errors: number;
+  originalBytes: number;
+  returnedBytes: number;
+}
+
+export interface StatsReport {
+  uptimeSeconds: number;
+  tools: Record<string, ToolStats & { estimatedTokensSaved: number }>;
+  totals: ToolStats & { estimatedTokensSaved: number };
+  summarizer: { requests: number; inputTokens: number; outputTokens: number };
+  /** End-to-end tool call latency (ms), from the client's request to our response */
+  latencyMs: { p50: number; p90: number; p99: number; max: number };
+  /** Time (ms) the proxy spent transforming responses */
+  processingMs: { p50: number; p90: number; p99: number; max: number };
+  cache: { hits: number; misses: number; hitRate: number } | null;
+  upstreamPid: number | null;
+  pendingRequests: number;
+}
+
+function percentiles(samples: number[]): StatsReport["latencyMs"] {
+  if (samples.length === 0) return { p50: 0, p90: 0, p99: 0, max: 0 };
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (p: number) => sorted[Math.min(Math.ceil(p * sorted.length) - 1, sorted.length - 1)];
+  return { p50: at(0.5), p90: at(0.9), p99: at(0.99), max: sorted[sorted.length - 1] };
+}
+
+function tokensSaved(stats: ToolStats): number {
+  return Math.max(Math.round((stats.originalBytes - stats.returnedBytes) / CHARS_PER_TOKEN), 0);
+}
+
+/**
+ * Counters for one proxy instance, reported by the slim_stats tool.
+ */
+export class StatsCollector {
+  private readonly startedAt = Date.now();
+  private tools = new Map<string, ToolStats>();
+  private latencies: number[] = [];
+  private processingTimes: number[] = [];
+  private summarizer = { requests: 0, inputTokens: 0, outputTokens: 0 };
+
+  recordToolCall(
+    toolName: string,
+    call: { originalBytes: number; returnedBytes: number; latencyMs: number; processingMs: number; error: boolean }
+  ): void {
+    const stats = this.tools.get(toolName) ?? { calls: 0, errors: 0, originalBytes: 0, returnedBytes: 0 };
+    stats.calls++;
+    if (call.error) stats.errors++;
+    stats.originalBytes += call.originalBytes;
+    stats.returnedBytes += call.returnedBytes;
+    this.tools.set(toolName, stats);
+
+    this.latencies.push(call.latencyMs);
+    this.processingTimes.push(call.processingMs);
+    if (this.latencies.length > MAX_LATENCY_SAMPLES) this.latencies.shift();
+    if (this.processingTimes.length > MAX_LATENCY_SAMPLES) this.processingTimes.shift();
+  }
+
+  recordSummarizerUsage(usage: SummarizeResult["usage"]): void {
+    this.summarizer.requests++;
+    this.summarizer.inputTokens += usage?.inputTokens ?? 0;
+    this.summarizer.outputTokens += usage?.outputTokens ?? 0;
+  }
+
+  /**
+   * The same provider, with every request's usage recorded here.
+   */
+  trackUsage(provider: SummarizerProvider): SummarizerProvider {
+    return {
+      name: provider.name,
+      model: provider.model,
+      summarize: async (request: SummarizeRequest) => {
+        const result = await provider.summarize(request);
+        this.recordSummarizerUsage(result.usage);
+        return result;
+      },
+      withModel: (model: string) => this.trackUsage(provider.withModel(model)),
+    };
+  }
+
+  report(state: {
+    cache: { hits: number; misses: number } | null;
+    upstreamPid: number | null;
+    pendingRequests: number;
+  }): StatsReport {
+    const tools: StatsReport["tools"] = {};
+    const totals: ToolStats = { calls: 0, errors: 0, originalBytes: 0, returnedBytes: 0 };
+    for (const [toolName, stats] of this.tools) {
+      tools[toolName] = { ...stats, estimatedTokensSaved: tokensSaved(stats) };
+      totals.calls += stats.calls;
+      totals.errors += stats.errors;
+      totals.originalBytes += stats.originalBytes;
+      totals.returnedBytes += stats.returnedBytes;
+    }
+
+    const cacheLookups = state.cache ? state.cache.hits + state.cache.misses : 0;
+    return {
+      uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000),
+      tools,
+      totals: { ...totals, estimatedTokensSaved: tokensSaved(totals) },
+      summarizer: { ...this.summarizer },
+      latencyMs: percentiles(this.latencies),
+      processingMs: percentiles(this.processingTimes),
+      cache: state.cache
+        ? { ...state.cache, hitRate: cacheLookups > 0 ? Number((state.cache.hits / cacheLookups).toFixed(3)) : 0 }
+        : null,
+      upstreamPid: state.upstreamPid,
+      pendingRequests: state.pendingRequests,
+    };
+  }
+}
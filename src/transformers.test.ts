@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { matchesTool, TransformerRegistry } from "./transformers.js";
+
+describe("matchesTool", () => {
+  it("matches exact names, wildcards and regexes", () => {
+    expect(matchesTool("query", "query")).toBe(true);
+    expect(matchesTool("query", "query_plan")).toBe(false);
+    expect(matchesTool("*", "anything")).toBe(true);
+    expect(matchesTool("db.*_rows", "db.list_rows")).toBe(true);
+    expect(matchesTool("db.*_rows", "dbxlist_rows")).toBe(false);
+    expect(matchesTool(/^fs_/g, "fs_read")).toBe(true);
+    expect(matchesTool(/^fs_/g, "fs_read")).toBe(true);
+  });
+});
+
+describe("TransformerRegistry", () => {
+  it("chains the transformers for a tool in registration order", async () => {
+    const registry = new TransformerRegistry<{ suffix: string }>().register(
+      { tools: "*", transform: (text) => text.trim() },
+      { tools: "read_*", transform: (text, _toolName, context) => ({ text: text + context.suffix }) },
+      { tools: "write_file", transform: () => "never" }
+    );
+
+    expect(registry.forTool("read_file")).toHaveLength(2);
+    expect(await registry.apply("  data  ", "read_file", { suffix: "!" })).toEqual({ text: "data!", degraded: false });
+    expect(await registry.apply("  data  ", "list_dir", { suffix: "!" })).toEqual({ text: "data", degraded: false });
+  });
+
+  it("reports degraded results from any transformer", async () => {
+    const registry = new TransformerRegistry().register(
+      { tools: "*", transform: async (text) => ({ text, degraded: true }) },
+      { tools: "*", transform: (text) => text.toUpperCase() }
+    );
+    expect(await registry.apply("x", "tool", undefined)).toEqual({ text: "X", degraded: true });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Rewriting of tool result text, by tool. Each text item of a tool result is passed
+ * through every transformer registered for the tool, in registration order.
+ */
+
+export interface TransformResult {
+  text: string;
+  /** The text is a fallback for what should have been returned */
+  degraded?: boolean;
+}
+
+export interface TextTransformer<Context = unknown> {
+  /** A tool name, a pattern with `*` wildcards, or a regex tested against the tool name */
+  tools: string | RegExp;
+  transform(
+    text: string,
+    toolName: string,
+    context: Context
+  ): string | TransformResult | Promise<string | TransformResult>;
+}
+
+/**
+ * Whether a transformer's `tools` pattern covers `toolName`.
+ */
+export function matchesTool(pattern: string | RegExp, toolName: string): boolean {
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(toolName);
+  }
+  if (!pattern.includes("*")) return pattern === toolName;
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}$`).test(toolName);
+}
+
+export class TransformerRegistry<Context = unknown> {
+  private transformers: TextTransformer<Context>[] = [];
+
+  register(...transformers: TextTransformer<Context>[]): this {
+    this.transformers.push(...transformers);
+    return this;
+  }
+
+  get size(): number {
+    return this.transformers.length;
+  }
+
+  forTool(toolName: string): TextTransformer<Context>[] {
+    return this.transformers.filter((transformer) => matchesTool(transformer.tools, toolName));
+  }
+
+  /**
+   * Run every transformer for `toolName` over `text`, each on the previous one's output.
+   */
+  async apply(text: string, toolName: string, context: Context): Promise<Required<TransformResult>> {
+    let degraded = false;
+    for (const transformer of this.forTool(toolName)) {
+      const result = await transformer.transform(text, toolName, context);
+      if (typeof result === "string") {
+        text = result;
+      } else {
+        text = result.text;
+        degraded ||= !!result.degraded;
+      }
+    }
+    return { text, degraded };
+  }
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi } from "vitest";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import { RemoteUpstream } from "./upstream.js";
+import { defaultConfig, UpstreamPolicy } from "./config.js";
+
+class FakeTransport implements Transport {
+  sent: JSONRPCMessage[] = [];
+  onmessage?: (message: JSONRPCMessage) => void;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+
+  constructor(
+    private failStart = false,
+    private answerInitialize = true
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.failStart) throw new Error("connection refused");
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    this.sent.push(message);
+    // Answer replayed initialize requests like a real server would
+    if (this.answerInitialize && "method" in message && message.method === "initialize" && "id" in message) {
+      queueMicrotask(() => this.onmessage?.({ jsonrpc: "2.0", id: message.id, result: {} }));
+    }
+  }
+
+  async close(): Promise<void> {}
+
+  /** Simulate the server dropping the connection */
+  drop(): void {
+    this.onclose?.();
+  }
+}
+
+const policy: UpstreamPolicy = { ...defaultConfig({}).upstream, reconnectDelayMs: 1, maxReconnectAttempts: 2 };
+
+function setup(transports: FakeTransport[], url = "http://browser-host:8931/mcp") {
+  const lines: unknown[] = [];
+  const onExit = vi.fn();
+  const kinds: string[] = [];
+  let next = 0;
+  const upstream = new RemoteUpstream(
+    new URL(url),
+    policy,
+    { onLine: (line) => lines.push(JSON.parse(line)), onExit },
+    (_url, kind) => {
+      kinds.push(kind);
+      return transports[Math.min(next++, transports.length - 1)];
+    }
+  );
+  return { upstream, lines, onExit, kinds };
+}
+
+const initialize = { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-06-18" } };
+const toolCall = { jsonrpc: "2.0", id: 2, method: "tools/call", params: { name: "browser_snapshot" } };
+
+describe("RemoteUpstream", () => {
+  it("picks the transport from the URL in auto mode", () => {
+    expect(setup([]).upstream.transportKind).toBe("streamable-http");
+    expect(setup([], "http://browser-host:8931/sse").upstream.transportKind).toBe("sse");
+  });
+
+  it("queues messages until connected and forwards responses", async () => {
+    const transport = new FakeTransport();
+    const { upstream, lines } = setup([transport]);
+    upstream.send(JSON.stringify(toolCall));
+    upstream.start();
+
+    await vi.waitFor(() => expect(transport.sent).toEqual([toolCall]));
+    transport.onmessage?.({ jsonrpc: "2.0", id: 2, result: { content: [] } });
+    expect(lines).toEqual([{ jsonrpc: "2.0", id: 2, result: { content: [] } }]);
+  });
+
+  it("fails in-flight requests and re-initializes after reconnecting", async () => {
+    const first = new FakeTransport();
+    const second = new FakeTransport();
+    const { upstream, lines, onExit } = setup([first, second]);
+    upstream.send(JSON.stringify(initialize));
+    upstream.start();
+    await vi.waitFor(() => expect(first.sent).toEqual([initialize]));
+    upstream.send(JSON.stringify(toolCall));
+    await vi.waitFor(() => expect(first.sent).toHaveLength(2));
+
+    first.drop();
+    expect(lines[1]).toMatchObject({ id: 2, error: { code: -32000, message: expect.stringMatching(/connection lost/) } });
+
+    await vi.waitFor(() =>
+      expect(second.sent).toEqual([
+        { ...initialize, id: "playwright-slim-reinitialize-1" },
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+      ])
+    );
+    // The replayed initialize response is not forwarded to the client
+    expect(lines).toHaveLength(2);
+    expect(onExit).not.toHaveBeenCalled();
+  });
+
+  it("reconnects when the connection drops while re-initializing", async () => {
+    const first = new FakeTransport();
+    const silent = new FakeTransport(false, false);
+    const third = new FakeTransport();
+    const { upstream, onExit } = setup([first, silent, third]);
+    upstream.send(JSON.stringify(initialize));
+    upstream.start();
+    await vi.waitFor(() => expect(first.sent).toEqual([initialize]));
+
+    first.drop();
+    await vi.waitFor(() => expect(silent.sent).toEqual([{ ...initialize, id: "playwright-slim-reinitialize-1" }]));
+    silent.drop();
+    await vi.waitFor(() =>
+      expect(third.sent).toEqual([
+        { ...initialize, id: "playwright-slim-reinitialize-2" },
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+      ])
+    );
+    expect(onExit).not.toHaveBeenCalled();
+  });
+
+  it("reconnects when a replayed initialize is not answered in time", async () => {
+    vi.useFakeTimers();
+    try {
+      const first = new FakeTransport();
+      const silent = new FakeTransport(false, false);
+      const third = new FakeTransport();
+      const { upstream } = setup([first, silent, third]);
+      upstream.send(JSON.stringify(initialize));
+      upstream.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      first.drop();
+      await vi.advanceTimersByTimeAsync(1);
+      expect(silent.sent).toHaveLength(1);
+      expect(third.sent).toHaveLength(0);
+
+      await vi.advanceTimersByTimeAsync(30_000 + 2);
+      expect(third.sent).toEqual([
+        { ...initialize, id: "playwright-slim-reinitialize-2" },
+        { jsonrpc: "2.0", method: "notifications/initialized" },
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("gives up after maxReconnectAttempts failed attempts", async () => {
+    const { upstream, onExit, kinds } = setup([new FakeTransport(true)]);
+    upstream.start();
+    await vi.waitFor(() => expect(onExit).toHaveBeenCalledWith(1));
+    expect(kinds).toHaveLength(policy.maxReconnectAttempts + 1);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Connections to the upstream MCP server (Playwright MCP unless configured otherwise).
+ * The proxy only exchanges lines of JSON-RPC with it, so a local child process and
+ * a remote server look the same.
+ */
+
+import { spawn, exec, ChildProcess } from "child_process";
+import { createInterface, Interface } from "readline";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { JSONRPCMessage, JSONRPCRequest, RequestId } from "@modelcontextprotocol/sdk/types.js";
+import { UpstreamPolicy } from "./config.js";
+import { log } from "./logger.js";
+
+export interface UpstreamHandlers {
+  /** One line of JSON from the upstream */
+  onLine(line: string): void;
+  /** The upstream is gone for good */
+  onExit(code: number | null): void;
+}
+
+export interface Upstream {
+  /** PID of a local upstream process, null for remote ones */
+  readonly pid: number | null;
+  start(): void;
+  /** Send one line of JSON to the upstream */
+  send(line: string): void;
+  /** Kill a local upstream's browser while leaving the MCP server alive */
+  killBrowser(): void;
+  /** Stop and restart reading from the upstream while the client catches up */
+  pause(): void;
+  resume(): void;
+  close(): void;
+}
+
+/**
+ * An MCP server as a child process (by default Playwright MCP), talking over stdio.
+ */
+export class ProcessUpstream implements Upstream {
+  private process: ChildProcess | null = null;
+  private reader: Interface | null = null;
+
+  constructor(
+    private command: string,
+    private args: string[],
+    private handlers: UpstreamHandlers,
+    private env: Record<string, string> = {}
+  ) {}
+
+  get pid(): number | null {
+    return this.process?.pid ?? null;
+  }
+
+  start(): void {
+    this.process = spawn(this.command, this.args, {
+      stdio: ["pipe", "pipe", "inherit"],
+      env: { ...process.env, ...this.env },
+      detached: true, // Create process group so we can kill browser on exit
+    });
+
+    if (!this.process.stdout || !this.process.stdin) {
+      log("ERROR", "Failed to spawn upstream", { command: this.command });
+      throw new Error(`Failed to spawn ${this.command}`);
+    }
+
+    log("INFO", "Upstream spawned", { command: this.command, args: this.args, pid: this.process.pid });
+
+    this.reader = createInterface({ input: this.process.stdout });
+    this.reader.on("line", (line) => this.handlers.onLine(line));
+
+    this.process.on("exit", (code) => {
+      log("INFO", "Upstream exited", { code });
+      this.handlers.onExit(code);
+    });
+  }
+
+  send(line: string): void {
+    this.process?.stdin?.write(line + "\n");
+  }
+
+  /**
+   * Kill Chromium/Chrome processes in our process group, leaving the MCP server alive.
+   * Works around @playwright/mcp browser_close not always terminating the browser.
+   */
+  killBrowser(): void {
+    if (!this.process?.pid) return;
+    const pgid = this.process.pid;
+    exec(`pgrep -g ${pgid} -fi chromium | xargs kill 2>/dev/null`, (err) => {
+      log("DEBUG", "killBrowserProcesses", { pgid, error: err ? String(err) : null });
+    });
+  }
+
+  pause(): void {
+    this.reader?.pause();
+  }
+
+  resume(): void {
+    this.reader?.resume();
+  }
+
+  close(): void {
+    if (!this.process?.pid) return;
+    try {
+      // Kill the entire process group (negative PID) so Chromium dies too
+      process.kill(-this.process.pid, "SIGTERM");
+    } catch {
+      // Process group may already be dead
+    }
+    // Force kill after 2s if SIGTERM wasn't enough
+    const pid = this.process.pid;
+    setTimeout(() => {
+      try {
+        process.kill(-pid, "SIGKILL");
+      } catch {
+        // Already dead
+      }
+    }, 2000).unref();
+  }
+}
+
+// IDs of the initialize requests replayed after a reconnect
+const REINITIALIZE_ID_PREFIX = "playwright-slim-reinitialize-";
+
+// A replayed initialize not answered after this long counts as a failed reconnect
+const REINITIALIZE_TIMEOUT_MS = 30_000;
+
+/**
+ * An MCP server reached over Streamable HTTP or SSE.
+ *
+ * When the connection drops, requests still in flight are answered with an error,
+ * new messages are queued, and the proxy reconnects with exponential backoff and
+ * replays the client's initialize request, so the client keeps its session.
+ */
+export class RemoteUpstream implements Upstream {
+  readonly pid = null;
+  private transport: Transport | null = null;
+  private queue: JSONRPCMessage[] = [];
+  private inFlight = new Set<RequestId>();
+  private initializeRequest: JSONRPCRequest | null = null;
+  // Replayed initialize request -> its outcome
+  private reinitializing = new Map<string, { resolve: () => void; reject: (err: Error) => void }>();
+  private nextReinitializeId = 1;
+  private failedAttempts = 0;
+  private connectedBefore = false;
+  private closed = false;
+
+  constructor(
+    private url: URL,
+    private policy: UpstreamPolicy,
+    private handlers: UpstreamHandlers,
+    private createTransport: (url: URL, kind: "streamable-http" | "sse") => Transport = defaultTransport
+  ) {}
+
+  get transportKind(): "streamable-http" | "sse" {
+    if (this.policy.transport !== "auto") return this.policy.transport;
+    return this.url.pathname.endsWith("/sse") ? "sse" : "streamable-http";
+  }
+
+  start(): void {
+    void this.connect();
+  }
+
+  private async connect(): Promise<void> {
+    const transport = this.createTransport(this.url, this.transportKind);
+    transport.onmessage = (message) => this.handleMessage(message);
+    transport.onclose = () => this.handleDisconnect(transport, "connection closed");
+    transport.onerror = (err) => log("DEBUG", "Upstream transport error", { error: String(err) });
+
+    let started = false;
+    try {
+      await transport.start();
+      started = true;
+      this.transport = transport;
+      // A queued initialize goes out below on the first connection
+      if (this.connectedBefore && this.initializeRequest) await this.reinitialize(transport);
+    } catch (err) {
+      // Already handled if the transport closed while re-initializing
+      if (started && this.transport !== transport) return;
+      this.transport = null;
+      void transport.close().catch(() => {});
+      this.scheduleReconnect(String(err));
+      return;
+    }
+
+    log("INFO", "Connected to upstream", { url: this.url.href, transport: this.transportKind });
+    this.failedAttempts = 0;
+    this.connectedBefore = true;
+    for (const message of this.queue.splice(0)) {
+      this.sendMessage(transport, message);
+    }
+  }
+
+  /**
+   * Start a new upstream session on behalf of the client, swallowing the response.
+   */
+  private async reinitialize(transport: Transport): Promise<void> {
+    const id = `${REINITIALIZE_ID_PREFIX}${this.nextReinitializeId++}`;
+    let timer: NodeJS.Timeout | undefined;
+    const answered = new Promise<void>((resolve, reject) => {
+      this.reinitializing.set(id, { resolve, reject });
+      timer = setTimeout(
+        () => reject(new Error(`initialize got no answer within ${REINITIALIZE_TIMEOUT_MS}ms`)),
+        REINITIALIZE_TIMEOUT_MS
+      );
+    });
+    // Rejected by a disconnect even while the request is still being sent
+    answered.catch(() => {});
+    try {
+      await transport.send({ ...this.initializeRequest!, id });
+      await answered;
+    } finally {
+      clearTimeout(timer);
+      this.reinitializing.delete(id);
+    }
+    await transport.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+  }
+
+  private scheduleReconnect(reason: string): void {
+    if (this.closed) return;
+    if (this.failedAttempts >= this.policy.maxReconnectAttempts) {
+      log("ERROR", "Giving up on upstream", { url: this.url.href, reason });
+      this.handlers.onExit(1);
+      return;
+    }
+    const delay = this.policy.reconnectDelayMs * 2 ** this.failedAttempts++;
+    log("INFO", "Reconnecting to upstream", { url: this.url.href, reason, delay, attempt: this.failedAttempts });
+    setTimeout(() => void this.connect(), delay).unref();
+  }
+
+  private handleDisconnect(transport: Transport, reason: string): void {
+    if (this.closed || transport !== this.transport) return;
+    this.transport = null;
+    void transport.close().catch(() => {});
+
+    // The new upstream session will never answer these
+    for (const id of this.inFlight) {
+      this.handlers.onLine(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          id,
+          error: { code: -32000, message: `Upstream connection lost: ${reason}` },
+        })
+      );
+    }
+    this.inFlight.clear();
+    for (const { reject } of this.reinitializing.values()) {
+      reject(new Error(`Upstream connection lost: ${reason}`));
+    }
+    this.reinitializing.clear();
+    this.scheduleReconnect(reason);
+  }
+
+  private handleMessage(message: JSONRPCMessage): void {
+    if ("id" in message && message.id !== undefined && !("method" in message)) {
+      const reinitialized = typeof message.id === "string" ? this.reinitializing.get(message.id) : undefined;
+      if (reinitialized) {
+        this.reinitializing.delete(message.id as string);
+        reinitialized.resolve();
+        return;
+      }
+      this.inFlight.delete(message.id);
+    }
+    this.handlers.onLine(JSON.stringify(message));
+  }
+
+  private sendMessage(transport: Transport, message: JSONRPCMessage): void {
+    transport.send(message).catch((err) => this.handleDisconnect(transport, String(err)));
+  }
+
+  send(line: string): void {
+    let message: JSONRPCMessage;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      log("DEBUG", "Dropping non-JSON line for remote upstream", { line });
+      return;
+    }
+
+    if ("method" in message && "id" in message) {
+      this.inFlight.add(message.id);
+      if (message.method === "initialize") this.initializeRequest = message;
+    }
+    if (this.transport) {
+      this.sendMessage(this.transport, message);
+    } else {
+      this.queue.push(message);
+    }
+  }
+
+  killBrowser(): void {
+    // The remote server manages its own browser
+  }
+
+  pause(): void {
+    // Messages arrive as the server pushes them; the proxy buffers them meanwhile
+  }
+
+  resume(): void {}
+
+  close(): void {
+    this.closed = true;
+    void this.transport?.close().catch(() => {});
+    this.transport = null;
+  }
+}
+
+function defaultTransport(url: URL, kind: "streamable-http" | "sse"): Transport {
+  return kind === "sse" ? new SSEClientTransport(url) : new StreamableHTTPClientTransport(url);
+}
@@ -0,0 +1,57 @@
+/**
+ * Starting worker threads from either layout of the package: compiled JS in dist,
+ * or the TypeScript sources as vitest runs them. Node cannot run the sources
+ * itself, so there the worker first registers a loader that compiles them with
+ * the typescript dev dependency.
+ */
+
+import { existsSync } from "fs";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+import { Worker } from "worker_threads";
+
+// Resolves ".js" imports of a .ts module to the .ts file and compiles .ts files
+const TS_LOADER = `
+import { readFile } from "node:fs/promises";
+let ts;
+export async function initialize({ typescript }) {
+  ts = (await import(typescript)).default;
+}
+export async function resolve(specifier, context, next) {
+  try {
+    return await next(specifier, context);
+  } catch (err) {
+    if (!specifier.endsWith(".js") || !context.parentURL?.endsWith(".ts")) throw err;
+    return next(specifier.slice(0, -".js".length) + ".ts", context);
+  }
+}
+export async function load(url, context, next) {
+  if (!url.endsWith(".ts")) return next(url, context);
+  const { outputText } = ts.transpileModule(await readFile(new URL(url), "utf8"), {
+    fileName: url,
+    compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+  });
+  return { format: "module", source: outputText, shortCircuit: true };
+}`;
+
+// Worker entry for the sources: registers the loader, then imports the real entry
+const TS_BOOTSTRAP = `
+const { register } = require("module");
+const { workerData } = require("worker_threads");
+register("data:text/javascript," + encodeURIComponent(workerData.loader), { data: { typescript: workerData.typescript } });
+import(workerData.entry);`;
+
+/**
+ * Start the worker whose entry is `entry`, a .js URL next to the calling module.
+ * If only the .ts source of it exists, that is run instead.
+ */
+export function startWorker(entry: URL): Worker {
+  if (existsSync(entry)) return new Worker(entry);
+
+  const source = new URL(entry.href.replace(/\.js$/, ".ts"));
+  const typescript = pathToFileURL(createRequire(import.meta.url).resolve("typescript")).href;
+  return new Worker(TS_BOOTSTRAP, {
+    eval: true,
+    workerData: { entry: source.href, loader: TS_LOADER, typescript },
+  });
+}
@@ -56,7 +56,7 @@ describe("MCP Server E2E", () => {
     });
 
     // Start the MCP proxy
-    mcpProcess = spawn("node", [join(projectRoot, "dist/index.js")], {
+    mcpProcess = spawn("node", [join(projectRoot, "dist/cli.js")], {
       cwd: projectRoot,
       stdio: ["pipe", "pipe", "pipe"],
       env: { ...process.env },
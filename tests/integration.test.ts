@@ -1,5 +1,11 @@
 import { describe, it, expect, beforeAll } from "vitest";
-import { summarizeSnapshot, summarizeEvents, parsePlaywrightResponse, EVENTS_PATTERN } from "../src/index.js";
+import { existsSync } from "fs";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import { summarizeSnapshot } from "../src/index.js";
+import { summarizeEvents, parsePlaywrightResponse, EVENTS_PATTERN } from "../src/lib.js";
+import { createProvider, providerOptionsFromEnv, SummarizerProvider } from "../src/providers.js";
+import { loadRecording, ReplaySummarizer, SessionRecorder } from "../src/recording.js";
 import {
   smallSnapshot,
   smallSnapshotWithConsole,
@@ -12,27 +18,37 @@ import {
   fullResponseWithEvents,
 } from "./fixtures.js";
 
+// The summaries for the cases below, replayed so they run offline. The committed ones
+// were written by hand (provider "hand-written"); delete the file and run with
+// ANTHROPIC_API_KEY set to record them from the real API.
+const RECORDING = join(dirname(fileURLToPath(import.meta.url)), "recordings", "integration-summaries.jsonl");
+
 describe("summarizeSnapshot", () => {
+  let provider: SummarizerProvider;
+
   beforeAll(() => {
+    if (existsSync(RECORDING)) {
+      provider = new ReplaySummarizer(loadRecording(RECORDING, 1));
+      return;
+    }
     if (!process.env.ANTHROPIC_API_KEY) {
-      throw new Error(
-        "ANTHROPIC_API_KEY environment variable is required for integration tests"
-      );
+      throw new Error(`ANTHROPIC_API_KEY environment variable is required to record ${RECORDING}`);
     }
+    provider = new SessionRecorder(RECORDING, 1).trackSummarizer(createProvider(providerOptionsFromEnv(process.env)));
   });
 
   it("passes through text without snapshot pattern unchanged", async () => {
-    const result = await summarizeSnapshot(noSnapshotText);
+    const result = await summarizeSnapshot(noSnapshotText, { provider });
     expect(result).toBe(noSnapshotText);
   });
 
   it("passes through small snapshots (< 500 chars) unchanged", async () => {
-    const result = await summarizeSnapshot(smallSnapshot);
+    const result = await summarizeSnapshot(smallSnapshot, { provider });
     expect(result).toBe(smallSnapshot);
   });
 
-  it("summarizes large snapshots via Anthropic API", async () => {
-    const result = await summarizeSnapshot(largeSnapshot);
+  it("summarizes large snapshots", async () => {
+    const result = await summarizeSnapshot(largeSnapshot, { provider });
 
     // Should be different from input (summarized)
     expect(result).not.toBe(largeSnapshot);
@@ -49,7 +65,7 @@ describe("summarizeSnapshot", () => {
   }, 30000); // 30 second timeout for API call
 
   it("preserves [ref=...] values in summarized output", async () => {
-    const result = await summarizeSnapshot(largeSnapshot);
+    const result = await summarizeSnapshot(largeSnapshot, { provider });
 
     // Should contain at least some ref values for interactive elements
     const refPattern = /\[ref=[^\]]+\]/g;
@@ -60,7 +76,7 @@ describe("summarizeSnapshot", () => {
   }, 30000);
 
   it("handles snapshot with surrounding context", async () => {
-    const result = await summarizeSnapshot(snapshotWithContext);
+    const result = await summarizeSnapshot(snapshotWithContext, { provider });
 
     // Should still contain the prefix and suffix
     expect(result).toContain("Tool executed successfully.");
@@ -71,7 +87,7 @@ describe("summarizeSnapshot", () => {
   }, 30000);
 
   it("summarizes new format snapshots (with Console line)", async () => {
-    const result = await summarizeSnapshot(largeSnapshotWithConsole);
+    const result = await summarizeSnapshot(largeSnapshotWithConsole, { provider });
 
     // Should be different from input (summarized)
     expect(result).not.toBe(largeSnapshotWithConsole);
@@ -88,7 +104,7 @@ describe("summarizeSnapshot", () => {
   }, 30000);
 
   it("passes through small new-format snapshots unchanged", async () => {
-    const result = await summarizeSnapshot(smallSnapshotWithConsole);
+    const result = await summarizeSnapshot(smallSnapshotWithConsole, { provider });
     expect(result).toBe(smallSnapshotWithConsole);
   });
 });
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { spawn } from "child_process";
+import { readFileSync } from "fs";
+import { createInterface } from "readline";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const projectRoot = join(__dirname, "..");
+
+interface Entry {
+  type: string;
+  line?: string;
+}
+
+/**
+ * Replay a recorded session through the built proxy - no browser or API key needed -
+ * and return what the proxy sent to the client.
+ */
+function replay(recording: string, expectedLines: number): Promise<string[]> {
+  const entries: Entry[] = readFileSync(recording, "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line));
+
+  const proxy = spawn("node", [join(projectRoot, "dist/cli.js"), `--slim-replay=${recording}`], {
+    cwd: projectRoot,
+    stdio: ["pipe", "pipe", "inherit"],
+    env: { ...process.env, PLAYWRIGHT_SLIM_CACHE: "0" },
+  });
+
+  return new Promise((resolve, reject) => {
+    const output: string[] = [];
+    const timeout = setTimeout(() => {
+      proxy.kill();
+      reject(new Error(`Timeout after ${output.length} of ${expectedLines} lines`));
+    }, 10000);
+
+    createInterface({ input: proxy.stdout! }).on("line", (line) => {
+      output.push(line);
+      if (output.length === expectedLines) {
+        clearTimeout(timeout);
+        proxy.kill();
+        resolve(output);
+      }
+    });
+
+    for (const entry of entries) {
+      if (entry.type === "client-to-proxy") proxy.stdin!.write(entry.line + "\n");
+    }
+  });
+}
+
+/**
+ * The lines the proxy sent to the client in a recording.
+ */
+function recordedOutput(recording: string): string[] {
+  return readFileSync(recording, "utf8")
+    .trim()
+    .split("\n")
+    .map((line) => JSON.parse(line) as Entry)
+    .filter((entry) => entry.type === "proxy-to-client")
+    .map((entry) => entry.line!);
+}
+
+describe("Recorded sessions", () => {
+  beforeAll(async () => {
+    await new Promise<void>((resolve, reject) => {
+      const build = spawn("npm", ["run", "build"], { cwd: projectRoot, stdio: "pipe" });
+      build.on("close", (code) => {
+        if (code === 0) resolve();
+        else reject(new Error(`Build failed with code ${code}`));
+      });
+    });
+  }, 60000);
+
+  it("replays a summarized browser_snapshot exactly as recorded", async () => {
+    const recording = join(__dirname, "recordings", "browser-snapshot.jsonl");
+    const expected = recordedOutput(recording);
+
+    const output = await replay(recording, expected.length);
+
+    expect(output).toEqual(expected);
+    expect(output.at(-1)).toContain("### Snapshot (summarized)");
+  }, 15000);
+
+  // The scenarios of e2e.test.ts, recorded with --slim-record against
+  // @playwright/mcp 0.0.59 and headless Chromium. Later versions write the
+  // snapshot of browser_navigate to a file, so there is nothing to summarize.
+  // Without internet access, en.wikipedia.org was mapped to a local copy of the
+  // Main Page, and the summary came from a stand-in Ollama server.
+  it("replays the e2e scenarios", async () => {
+    const recording = join(__dirname, "recordings", "e2e-session.jsonl");
+    const expected = recordedOutput(recording);
+
+    const output = await replay(recording, expected.length);
+
+    expect(output).toEqual(expected);
+    const responses = new Map(
+      output.map((line) => JSON.parse(line)).map((message) => [message.id, message.result])
+    );
+    expect(responses.get(1)).toHaveProperty("protocolVersion");
+
+    const toolNames = responses.get(2).tools.map((tool: { name: string }) => tool.name);
+    expect(toolNames).toContain("browser_snapshot");
+    expect(toolNames).toContain("browser_snapshot_full");
+
+    const navigated = responses.get(3).content.find((item: { type: string }) => item.type === "text").text;
+    expect(navigated).toContain("wikipedia.org");
+    expect(navigated).toContain("(summarized)");
+    expect(navigated).toMatch(/\[ref=/);
+
+    const full = responses.get(4).content.find((item: { type: string }) => item.type === "text").text;
+    expect(full).not.toContain("(summarized)");
+    expect(full).toContain("```yaml");
+  }, 15000);
+});